@@ -0,0 +1,55 @@
+import { bench, describe } from 'vitest';
+import { ScaledInteger, ScaledIntegerArray, sum } from '../src/index.js';
+
+// Prices between -500.00 and 500.00, the same ones in both representations
+const SIZE = 100_000;
+const objects = Array.from({ length: SIZE }, (_, i) => new ScaledInteger(((i * 7919) % 100_001) - 50_000, 2));
+const column = ScaledIntegerArray.from(objects);
+const rate = ScaledInteger.parse('1.0825');
+const fee = ScaledInteger.parse('0.30');
+const limit = ScaledInteger.parse('250');
+
+describe('sum', () => {
+    bench('ScaledInteger[]', () => {
+        sum(objects);
+    });
+    bench('ScaledIntegerArray', () => {
+        column.sum();
+    });
+});
+
+describe('add a scalar', () => {
+    bench('ScaledInteger[]', () => {
+        objects.map(value => value.plus(fee));
+    });
+    bench('ScaledIntegerArray', () => {
+        column.plus(fee);
+    });
+});
+
+describe('multiply and round', () => {
+    bench('ScaledInteger[]', () => {
+        objects.map(value => value.times(rate).round(2));
+    });
+    bench('ScaledIntegerArray', () => {
+        column.times(rate);
+    });
+});
+
+describe('filter by comparison', () => {
+    bench('ScaledInteger[]', () => {
+        objects.filter(value => ScaledInteger.greaterThan(value, limit));
+    });
+    bench('ScaledIntegerArray', () => {
+        column.filter(column.greaterThan(limit));
+    });
+});
+
+describe('sort', () => {
+    bench('ScaledInteger[]', () => {
+        objects.slice().sort(ScaledInteger.compare);
+    });
+    bench('ScaledIntegerArray', () => {
+        column.clone().sort();
+    });
+});
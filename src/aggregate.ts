@@ -0,0 +1,247 @@
+import { BigScaledInteger } from './big-scaled-integer.js';
+import { DivisionByZeroError, InvalidArgumentError, OverflowError, assertScale } from './errors.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+import { ScaledInteger } from './scaled-integer.js';
+import { toSafeInteger } from './util.js';
+
+// Results are computed exactly and returned at the largest scale among the
+// inputs, unless `scale` asks for another one. `rounding` applies whenever
+// that drops digits, including the divisions in `mean`, `median` and
+// `weightedAverage`
+export interface AggregateOptions {
+    scale?: number;
+    rounding?: RoundingMode;
+}
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+// Rounds the exact fraction `n / (d * 10^scale)` to the requested scale.
+// Intermediate values are never limited to safe integers, only the result is
+const toResult = (
+    n: bigint,
+    d: bigint,
+    scale: number,
+    options: AggregateOptions,
+    operation: string,
+): ScaledInteger => {
+    const { scale: target = scale, rounding = 'half-even' } = options;
+    assertScale(target);
+    const [value] =
+        target >= scale
+            ? divideRounded(n * pow10(target - scale), d, rounding)
+            : divideRounded(n, d * pow10(scale - target), rounding);
+    return new ScaledInteger(toSafeInteger(value, operation, [new BigScaledInteger(value, target)]), target);
+};
+
+const assertNotEmpty = (count: number) => {
+    if (count === 0) throw new InvalidArgumentError('values', 'at least one value is required');
+};
+
+// A loop rather than `Math.max(...)`, which exceeds the call stack on large inputs
+const maxScale = (values: readonly ScaledInteger[]): number => {
+    let scale = 0;
+    for (const value of values) {
+        if (value.scale > scale) scale = value.scale;
+    }
+    return scale;
+};
+
+// Running totals for datasets too large to hold in memory. Values of any
+// scale may be added, the sum is kept exact as a bigint
+export class Accumulator {
+    private _count = 0;
+    private _scale = 0;
+    private _total = 0n;
+    private _min: ScaledInteger | undefined;
+    private _max: ScaledInteger | undefined;
+
+    get count() {
+        return this._count;
+    }
+
+    // Largest scale seen so far
+    get scale() {
+        return this._scale;
+    }
+
+    add(value: ScaledInteger): this {
+        if (value.scale > this._scale) {
+            this._total *= pow10(value.scale - this._scale);
+            this._scale = value.scale;
+        }
+        this._total += value.toBigInt(this._scale);
+        if (this._min === undefined || ScaledInteger.lessThan(value, this._min)) {
+            this._min = value.clone();
+        }
+        if (this._max === undefined || ScaledInteger.greaterThan(value, this._max)) {
+            this._max = value.clone();
+        }
+        this._count += 1;
+        return this;
+    }
+
+    addAll(values: Iterable<ScaledInteger>): this {
+        for (const value of values) {
+            this.add(value);
+        }
+        return this;
+    }
+
+    // Zero when nothing was added
+    sum(options: AggregateOptions = {}): ScaledInteger {
+        return toResult(this._total, 1n, this._scale, options, 'sum');
+    }
+
+    min(options: AggregateOptions = {}): ScaledInteger {
+        assertNotEmpty(this._count);
+        return toResult(this._min!.toBigInt(), 1n, this._min!.scale, { scale: this._scale, ...options }, 'min');
+    }
+
+    max(options: AggregateOptions = {}): ScaledInteger {
+        assertNotEmpty(this._count);
+        return toResult(this._max!.toBigInt(), 1n, this._max!.scale, { scale: this._scale, ...options }, 'max');
+    }
+
+    mean(options: AggregateOptions = {}): ScaledInteger {
+        assertNotEmpty(this._count);
+        return toResult(this._total, BigInt(this._count), this._scale, options, 'mean');
+    }
+}
+
+export const sum = (values: Iterable<ScaledInteger>, options: AggregateOptions = {}): ScaledInteger => {
+    return new Accumulator().addAll(values).sum(options);
+};
+
+export const min = (values: Iterable<ScaledInteger>, options: AggregateOptions = {}): ScaledInteger => {
+    return new Accumulator().addAll(values).min(options);
+};
+
+export const max = (values: Iterable<ScaledInteger>, options: AggregateOptions = {}): ScaledInteger => {
+    return new Accumulator().addAll(values).max(options);
+};
+
+export const mean = (values: Iterable<ScaledInteger>, options: AggregateOptions = {}): ScaledInteger => {
+    return new Accumulator().addAll(values).mean(options);
+};
+
+// The middle value, or the mean of the two middle values of an even count
+export const median = (values: Iterable<ScaledInteger>, options: AggregateOptions = {}): ScaledInteger => {
+    const items = [...values];
+    assertNotEmpty(items.length);
+    const scale = maxScale(items);
+    const sorted = items.map(item => item.toBigInt(scale)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const middle = sorted.length >> 1;
+    if (sorted.length % 2 === 1) {
+        return toResult(sorted[middle]!, 1n, scale, options, 'median');
+    }
+    return toResult(sorted[middle - 1]! + sorted[middle]!, 2n, scale, options, 'median');
+};
+
+// Sum of `values[i] * weights[i]` divided by the sum of the weights. Numeric
+// weights are converted through their shortest decimal representation
+export const weightedAverage = (
+    values: Iterable<ScaledInteger>,
+    weights: Iterable<ScaledInteger | number>,
+    options: AggregateOptions = {},
+): ScaledInteger => {
+    const items = [...values];
+    const factors = [...weights].map(weight =>
+        typeof weight === 'number' ? ScaledInteger.fromNumber(weight) : weight,
+    );
+    if (items.length !== factors.length) {
+        throw new InvalidArgumentError('weights', 'values and weights must have the same length');
+    }
+    assertNotEmpty(items.length);
+    const scale = maxScale(items);
+    const weightScale = maxScale(factors);
+    let weighted = 0n;
+    let total = 0n;
+    for (let i = 0; i < items.length; ++i) {
+        const weight = factors[i]!.toBigInt(weightScale);
+        weighted += items[i]!.toBigInt(scale) * weight;
+        total += weight;
+    }
+    return toResult(weighted, total, scale, options, 'weighted average');
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const d = ScaledInteger.parse;
+    const json = (x: ScaledInteger) => x.toJSON();
+
+    it('sums values of mixed scales', () => {
+        expect(json(sum([d('1.5'), d('2.25'), d('-0.125')]))).toEqual({ value: 3625, scale: 3 });
+        expect(json(sum([]))).toEqual({ value: 0, scale: 0 });
+        expect(json(sum([d('1.25'), d('1.25')], { scale: 1 }))).toEqual({ value: 25, scale: 1 });
+        expect(json(sum([d('1.25'), d('0.1')], { scale: 1, rounding: 'half-up' }))).toEqual({ value: 14, scale: 1 });
+        expect(json(sum(new Set([d('1'), d('2')])))).toEqual({ value: 3, scale: 0 });
+    });
+
+    it('sums through intermediate overflow', () => {
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER);
+        const negativeMax = new ScaledInteger(-Number.MAX_SAFE_INTEGER);
+        expect(json(sum([max, max, negativeMax, negativeMax, d('1')]))).toEqual({ value: 1, scale: 0 });
+        expect(() => sum([max, d('1')])).toThrow(OverflowError);
+        expect(() => sum([max, d('1')])).toThrow('sum overflow');
+        expect(() => sum([max, d('0.1')])).toThrow(OverflowError);
+        expect(json(mean([max, max]))).toEqual({ value: Number.MAX_SAFE_INTEGER, scale: 0 });
+    });
+
+    it('finds minimum and maximum values', () => {
+        const values = [d('3.5'), d('-1'), d('10'), d('2.125')];
+        expect(json(min(values))).toEqual({ value: -1000, scale: 3 });
+        expect(json(max(values))).toEqual({ value: 10000, scale: 3 });
+        expect(json(max(values, { scale: 0 }))).toEqual({ value: 10, scale: 0 });
+        expect(json(min([d('2.125')], { scale: 1, rounding: 'floor' }))).toEqual({ value: 21, scale: 1 });
+        expect(() => min([])).toThrow('at least one value is required');
+        expect(() => max([])).toThrow(InvalidArgumentError);
+    });
+
+    it('averages', () => {
+        expect(mean([d('1'), d('2'), d('2')]).toString()).toBe('2');
+        expect(mean([d('1'), d('2'), d('2')], { scale: 4 }).toString()).toBe('1.6667');
+        expect(mean([d('0.1'), d('0.2')]).toString()).toBe('0.2');
+        expect(mean([d('0.1'), d('0.2')], { rounding: 'half-up' }).toString()).toBe('0.2');
+        expect(mean([d('0.1'), d('0.4')], { rounding: 'half-up' }).toString()).toBe('0.3');
+        expect(mean([d('0.1'), d('0.4')], { rounding: 'half-even' }).toString()).toBe('0.2');
+
+        expect(median([d('3'), d('1'), d('2')]).toString()).toBe('2');
+        expect(median([d('4'), d('1'), d('2'), d('3.5')], { scale: 2 }).toString()).toBe('2.75');
+        expect(median([d('1'), d('2')]).toString()).toBe('2');
+        expect(median([d('1'), d('2')], { rounding: 'floor' }).toString()).toBe('1');
+
+        expect(weightedAverage([d('10'), d('20')], [1, 3]).toString()).toBe('18');
+        expect(weightedAverage([d('10.00'), d('20')], [d('0.5'), d('0.25')], { scale: 2 }).toString()).toBe('13.33');
+        expect(() => weightedAverage([d('1')], [0])).toThrow(DivisionByZeroError);
+        expect(() => weightedAverage([d('1')], [1, 2])).toThrow('values and weights must have the same length');
+        expect(() => weightedAverage([d('1')], [1, 2])).toThrow(InvalidArgumentError);
+        expect(() => median([])).toThrow(InvalidArgumentError);
+    });
+
+    it('handles large inputs', () => {
+        const values = Array.from({ length: 300_000 }, (_, i) => new ScaledInteger(i % 1000, i % 3));
+        const weights = values.map(() => 1);
+        expect(median(values).toString()).toBe('45.35');
+        expect(weightedAverage(values, weights).toJSON()).toEqual(mean(values).toJSON());
+    });
+
+    it('accumulates streams', () => {
+        const accumulator = new Accumulator();
+        function* readings() {
+            for (let i = 1; i <= 1000; ++i) {
+                yield new ScaledInteger(i, 2);
+            }
+        }
+        accumulator.addAll(readings()).add(d('0.005'));
+        expect(accumulator.count).toBe(1001);
+        expect(accumulator.scale).toBe(3);
+        expect(accumulator.sum().toString()).toBe('5005.005');
+        expect(accumulator.min().toString()).toBe('0.005');
+        expect(accumulator.max().toString()).toBe('10');
+        expect(json(accumulator.mean({ scale: 4 }))).toEqual({ value: 50000, scale: 4 });
+        expect(new Accumulator().sum().toString()).toBe('0');
+        expect(() => new Accumulator().mean()).toThrow();
+    });
+}
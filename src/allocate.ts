@@ -0,0 +1,95 @@
+import { InvalidArgumentError } from './errors.js';
+
+// Which parts receive the minor units left over after every part has been
+// given its rounded-down share. `largest-remainder` favours the parts whose
+// exact share was truncated the most, breaking ties by position
+export type Distribution = 'largest-remainder' | 'front' | 'back';
+
+export interface AllocateOptions {
+    distribution?: Distribution;
+}
+
+// Splits `total` into integer parts proportional to `ratios` that always sum
+// back to `total`. Parts of negative totals are negative
+export const allocateUnits = (
+    total: bigint,
+    ratios: bigint[],
+    distribution: Distribution = 'largest-remainder',
+): bigint[] => {
+    if (ratios.length === 0) throw new InvalidArgumentError('ratios', 'at least one ratio is required');
+    let sum = 0n;
+    for (const ratio of ratios) {
+        if (ratio < 0n) throw new InvalidArgumentError('ratios', 'ratios must not be negative');
+        sum += ratio;
+    }
+    if (sum === 0n) throw new InvalidArgumentError('ratios', 'ratios must not all be zero');
+
+    const negative = total < 0n;
+    const magnitude = negative ? -total : total;
+    const parts = ratios.map(ratio => (magnitude * ratio) / sum);
+    let leftover = magnitude - parts.reduce((a, b) => a + b, 0n);
+
+    const candidates = ratios.map((_, i) => i).filter(i => ratios[i]! > 0n);
+    if (distribution === 'back') {
+        candidates.reverse();
+    } else if (distribution === 'largest-remainder') {
+        const remainders = ratios.map(ratio => (magnitude * ratio) % sum);
+        candidates.sort((a, b) => {
+            const ra = remainders[a]!;
+            const rb = remainders[b]!;
+            return ra === rb ? a - b : ra > rb ? -1 : 1;
+        });
+    }
+
+    // Every part was rounded down by less than one unit, so there are fewer
+    // leftover units than parts with a non-zero ratio
+    for (const i of candidates) {
+        if (leftover === 0n) break;
+        parts[i]! += 1n;
+        leftover -= 1n;
+    }
+
+    return negative ? parts.map(part => -part) : parts;
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('allocates by ratio', () => {
+        expect(allocateUnits(1000n, [1n, 1n, 1n])).toEqual([334n, 333n, 333n]);
+        expect(allocateUnits(1000n, [70n, 20n, 10n])).toEqual([700n, 200n, 100n]);
+        expect(allocateUnits(5n, [3n, 7n])).toEqual([2n, 3n]);
+        expect(allocateUnits(100n, [1n, 0n, 1n])).toEqual([50n, 0n, 50n]);
+        expect(allocateUnits(0n, [1n, 2n])).toEqual([0n, 0n]);
+    });
+
+    it('distributes leftover units', () => {
+        expect(allocateUnits(11n, [1n, 1n, 1n, 1n], 'front')).toEqual([3n, 3n, 3n, 2n]);
+        expect(allocateUnits(11n, [1n, 1n, 1n, 1n], 'back')).toEqual([2n, 3n, 3n, 3n]);
+        expect(allocateUnits(11n, [1n, 1n, 1n, 1n], 'largest-remainder')).toEqual([3n, 3n, 3n, 2n]);
+        expect(allocateUnits(10n, [1n, 2n, 4n])).toEqual([1n, 3n, 6n]);
+        expect(allocateUnits(10n, [1n, 0n, 1n, 1n], 'back')).toEqual([3n, 0n, 3n, 4n]);
+    });
+
+    it('allocates negative totals', () => {
+        expect(allocateUnits(-1000n, [1n, 1n, 1n])).toEqual([-334n, -333n, -333n]);
+        expect(allocateUnits(-11n, [1n, 1n, 1n, 1n], 'back')).toEqual([-2n, -3n, -3n, -3n]);
+    });
+
+    it('parts always sum to the total', () => {
+        const ratios = [7n, 3n, 11n, 1n, 0n, 5n];
+        for (let total = -200n; total <= 200n; total += 7n) {
+            for (const distribution of ['largest-remainder', 'front', 'back'] as const) {
+                const parts = allocateUnits(total, ratios, distribution);
+                expect(parts.reduce((a, b) => a + b, 0n)).toBe(total);
+            }
+        }
+    });
+
+    it('rejects invalid ratios', () => {
+        expect(() => allocateUnits(1n, [])).toThrow(InvalidArgumentError);
+        expect(() => allocateUnits(1n, [0n, 0n])).toThrow('ratios must not all be zero');
+        expect(() => allocateUnits(1n, [1n, -1n])).toThrow(InvalidArgumentError);
+    });
+}
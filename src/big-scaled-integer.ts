@@ -0,0 +1,774 @@
+import { allocateUnits, type AllocateOptions } from './allocate.js';
+import { InvalidArgumentError, OverflowError, ParseError, ScaleError, assertScale, type Result } from './errors.js';
+import { decimalExponent, formatExponential, matchExponential, trimFractionZeros } from './exponential.js';
+import { decimalFromNumber, type FromNumberOptions } from './from-number.js';
+import { formatDecimal, type FormatOptions } from './format.js';
+import { parseLocaleDecimal, type LocaleParseOptions, type ParseResult } from './locale-parse.js';
+import { powerRounded, rootRounded } from './power.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+import { ScaledInteger, type DivisionMode } from './scaled-integer.js';
+import {
+    LAX_DECIMAL_REGEX,
+    STRICT_DECIMAL_REGEX,
+    invalidDecimalPosition,
+    matchDecimal,
+    toSafeInteger,
+} from './util.js';
+
+// Either representation is accepted wherever a `BigScaledInteger` operand is
+// expected, so number-backed values can be mixed in without converting first.
+// The reverse does not hold: `ScaledInteger` methods only take `ScaledInteger`
+// operands and throw `InvalidArgumentError` otherwise, so mixed operations
+// widen to `BigScaledInteger`, and results are narrowed back explicitly with
+// `toScaledInteger`
+export type AnyScaledInteger = ScaledInteger | BigScaledInteger;
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+// Bounds the scale and the number of zeros an exponent may produce in
+// `parseExponential`, which would otherwise allocate a bigint of any size
+const MAX_EXPONENT_DIGITS = 100_000;
+
+export class BigScaledInteger {
+    private _value: bigint;
+    private _scale: number;
+
+    constructor(value: bigint, scale: number = 0) {
+        if (typeof value !== 'bigint') throw TypeError('value must be a bigint');
+        assertScale(scale);
+        this._value = value;
+        this._scale = scale;
+    }
+
+    static from(input: AnyScaledInteger): BigScaledInteger {
+        if (input instanceof BigScaledInteger) {
+            return input.clone();
+        }
+        return new BigScaledInteger(BigInt(input.value), input.scale);
+    }
+
+    static deserialize(input: { value: string | number | bigint; scale: number }): BigScaledInteger {
+        const { value, scale } = input;
+        if (typeof value === 'string' && !/^-?[0-9]+$/.test(value)) {
+            throw new ParseError(value, value.match(/^-?[0-9]*/)![0].length, 'invalid integer string');
+        }
+        if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+            throw new OverflowError('deserialization', [value], 'unsafe integer value');
+        }
+        return new BigScaledInteger(BigInt(value), scale);
+    }
+
+    static parse(str: string): BigScaledInteger {
+        const result = BigScaledInteger.tryParse(str);
+        if (!result.ok) {
+            throw result.error;
+        }
+        return result.value;
+    }
+
+    static parseLax(str: string): BigScaledInteger {
+        const result = BigScaledInteger.tryParseLax(str);
+        if (!result.ok) {
+            throw result.error;
+        }
+        return result.value;
+    }
+
+    static tryParse(str: string): Result<BigScaledInteger, ParseError> {
+        const match = matchDecimal(str, STRICT_DECIMAL_REGEX);
+        if (!match) {
+            return { ok: false, error: new ParseError(str, invalidDecimalPosition(str, false)) };
+        }
+        const [sign, majorStr, minorStr] = match;
+        const minor = BigInt(minorStr);
+        const scale = minor === 0n ? 0 : minorStr.length;
+        const value = BigInt(majorStr) * pow10(scale) + minor;
+        return { ok: true, value: new BigScaledInteger(sign == '-' ? -value : value, scale) };
+    }
+
+    static tryParseLax(str: string): Result<BigScaledInteger, ParseError> {
+        const match = matchDecimal(str, LAX_DECIMAL_REGEX);
+        if (!match) {
+            return { ok: false, error: new ParseError(str, invalidDecimalPosition(str, true)) };
+        }
+        const [sign, majorStr, minorStr] = match;
+        const scale = minorStr.length;
+        const value = BigInt(majorStr) * pow10(scale) + BigInt(minorStr);
+        return { ok: true, value: new BigScaledInteger(sign == '-' ? -value : value, scale) };
+    }
+
+    static fromNumber(x: number, options: FromNumberOptions = {}): BigScaledInteger {
+        const [value, scale] = decimalFromNumber(x, options);
+        return new BigScaledInteger(value, scale);
+    }
+
+    // `value` is in units of the given scale, e.g. cents for a scale of 2
+    static fromBigInt(value: bigint, scale: number = 0): BigScaledInteger {
+        return new BigScaledInteger(value, scale);
+    }
+
+    // Accepts everything `parse` does plus an exponent, as in `1.5e-7` or `2E+3`
+    static parseExponential(str: string): BigScaledInteger {
+        const match = matchExponential(str);
+        if (!match) {
+            throw new ParseError(str, invalidDecimalPosition(str, false, true));
+        }
+        const [digits, scale] = trimFractionZeros(match[1], match[2]);
+        if (-scale > MAX_EXPONENT_DIGITS) {
+            throw new OverflowError('parsing', [str], 'exponent out of range');
+        }
+        if (scale > MAX_EXPONENT_DIGITS) {
+            throw new ScaleError('exponent out of range');
+        }
+        const magnitude = scale < 0 ? BigInt(digits) * pow10(-scale) : BigInt(digits);
+        return new BigScaledInteger(match[0] == '-' ? -magnitude : magnitude, Math.max(scale, 0));
+    }
+
+    // Parses formatted user input such as `1.234,56`, `(12.00)` or `$ 5`. Failures
+    // are returned rather than thrown, with the position of the offending character
+    static parseLocale(str: string, options: LocaleParseOptions = {}): ParseResult<BigScaledInteger> {
+        const result = parseLocaleDecimal(str, options);
+        if (!result.ok) {
+            return result;
+        }
+        return BigScaledInteger.tryParse(result.value);
+    }
+
+    static normalizedValues(a: AnyScaledInteger, b: AnyScaledInteger): [[bigint, bigint], number] {
+        const aValue = BigInt(a.value);
+        const bValue = BigInt(b.value);
+        const { scale: aScale } = a;
+        const { scale: bScale } = b;
+        if (aScale < bScale) {
+            return [[aValue * pow10(bScale - aScale), bValue], bScale];
+        } else {
+            return [[aValue, bValue * pow10(aScale - bScale)], aScale];
+        }
+    }
+
+    static normalize(...values: AnyScaledInteger[]): BigScaledInteger[] {
+        let maxScale = 0;
+        for (const value of values) {
+            if (value.scale > maxScale) {
+                maxScale = value.scale;
+            }
+        }
+        return values.map(value => BigScaledInteger.from(value).increaseScale(maxScale - value.scale));
+    }
+
+    static equal(a: AnyScaledInteger, b: AnyScaledInteger): boolean {
+        return this.compare(a, b) === 0;
+    }
+
+    static compare(a: AnyScaledInteger, b: AnyScaledInteger): -1 | 0 | 1 {
+        const [[aValue, bValue]] = this.normalizedValues(a, b);
+        return aValue < bValue ? -1 : aValue === bValue ? 0 : +1;
+    }
+
+    static lessThan(a: AnyScaledInteger, b: AnyScaledInteger): boolean {
+        return this.compare(a, b) === -1;
+    }
+
+    static lessThanOrEqual(a: AnyScaledInteger, b: AnyScaledInteger): boolean {
+        const c = this.compare(a, b);
+        return c === 0 || c === -1;
+    }
+
+    static greaterThanOrEqual(a: AnyScaledInteger, b: AnyScaledInteger): boolean {
+        const c = this.compare(a, b);
+        return c === 0 || c === +1;
+    }
+
+    static greaterThan(a: AnyScaledInteger, b: AnyScaledInteger): boolean {
+        return this.compare(a, b) === +1;
+    }
+
+    static divide(
+        a: AnyScaledInteger,
+        b: AnyScaledInteger,
+        scale: number,
+        rounding: RoundingMode = 'half-even',
+    ): BigScaledInteger {
+        assertScale(scale);
+        const exponent = b.scale + scale - a.scale;
+        let n = BigInt(a.value);
+        let d = BigInt(b.value);
+        if (exponent >= 0) {
+            n *= pow10(exponent);
+        } else {
+            d *= pow10(-exponent);
+        }
+        const [q] = divideRounded(n, d, rounding);
+        return new BigScaledInteger(q, scale);
+    }
+
+    static divideWithRemainder(
+        a: AnyScaledInteger,
+        b: AnyScaledInteger,
+        mode: DivisionMode = 'truncate',
+    ): [BigScaledInteger, BigScaledInteger] {
+        const [[lhs, rhs], scale] = this.normalizedValues(a, b);
+        const rounding: RoundingMode =
+            mode === 'truncate' ? 'toward-zero' : mode === 'floor' || rhs > 0n ? 'floor' : 'ceiling';
+        const [q] = divideRounded(lhs, rhs, rounding);
+        return [new BigScaledInteger(q, 0), new BigScaledInteger(lhs - q * rhs, scale)];
+    }
+
+    static round(
+        value: AnyScaledInteger,
+        scale: number,
+        rounding: RoundingMode = 'half-even',
+    ): [BigScaledInteger, boolean] {
+        const output = BigScaledInteger.from(value);
+        const inexact = output._round(scale, rounding);
+        return [output, inexact];
+    }
+
+    static roundToPrecision(
+        value: AnyScaledInteger,
+        precision: number,
+        rounding: RoundingMode = 'half-even',
+    ): [BigScaledInteger, boolean] {
+        const output = BigScaledInteger.from(value);
+        const inexact = output._roundToPrecision(precision, rounding);
+        return [output, inexact];
+    }
+
+    get value() {
+        return this._value;
+    }
+
+    get scale() {
+        return this._scale;
+    }
+
+    clone(): BigScaledInteger {
+        const { _value, _scale } = this;
+        return new BigScaledInteger(_value, _scale);
+    }
+
+    // Throws when the value does not fit in a number-backed `ScaledInteger`
+    toScaledInteger(): ScaledInteger {
+        const { _value, _scale } = this;
+        return new ScaledInteger(toSafeInteger(_value, 'conversion', [this.clone()], 'unsafe integer value'), _scale);
+    }
+
+    isSafe() {
+        const { _value } = this;
+        return _value <= BigInt(Number.MAX_SAFE_INTEGER) && _value >= BigInt(Number.MIN_SAFE_INTEGER);
+    }
+
+    // Returns the value in units of the given scale, rounding if needed
+    toBigInt(scale: number = this._scale, rounding: RoundingMode = 'unnecessary'): bigint {
+        return this.withScale(scale, rounding)._value;
+    }
+
+    isZero() {
+        return this._value === 0n;
+    }
+
+    isPositive() {
+        return this._value > 0n;
+    }
+
+    isNegative() {
+        return this._value < 0n;
+    }
+
+    hasSubUnits() {
+        const { _value, _scale } = this;
+        return _value % pow10(_scale) !== 0n;
+    }
+
+    toUnits(): [bigint, bigint] {
+        const { _value, _scale } = this;
+        const minor = _value % pow10(_scale);
+        const major = (_value - minor) / pow10(_scale);
+        return [major, minor < 0n ? -minor : minor];
+    }
+
+    toString(): string {
+        const [major, minor] = this.toUnits();
+        if (minor === 0n) {
+            return major.toString();
+        } else {
+            const zerosign = major === 0n && this._value < 0n ? '-' : '';
+            return `${zerosign}${major}.${minor.toString().padStart(this._scale, '0')}`;
+        }
+    }
+
+    format(options: FormatOptions = {}): string {
+        const { maximumFractionDigits = this._scale, rounding = 'half-even' } = options;
+        if (maximumFractionDigits < this._scale) {
+            return formatDecimal(this.withScale(maximumFractionDigits, rounding), options);
+        }
+        return formatDecimal(this, options);
+    }
+
+    toExponential(fractionDigits?: number, rounding: RoundingMode = 'half-even'): string {
+        const { _value, _scale } =
+            fractionDigits === undefined ? this : BigScaledInteger.roundToPrecision(this, fractionDigits + 1, rounding)[0];
+        return formatExponential(_value < 0n, (_value < 0n ? -_value : _value).toString(), _scale, fractionDigits);
+    }
+
+    toEngineering(precision?: number, rounding: RoundingMode = 'half-even'): string {
+        const { _value, _scale } =
+            precision === undefined ? this : BigScaledInteger.roundToPrecision(this, precision, rounding)[0];
+        const digits = (_value < 0n ? -_value : _value).toString();
+        const exponent = decimalExponent(digits, _scale);
+        const integerDigits = exponent - Math.floor(exponent / 3) * 3 + 1;
+        const fractionDigits = precision === undefined ? undefined : Math.max(0, precision - integerDigits);
+        return formatExponential(_value < 0n, digits, _scale, fractionDigits, true);
+    }
+
+    // Uses exponent notation under the same conditions as `Number.prototype.toPrecision`
+    toPrecision(precision: number, rounding: RoundingMode = 'half-even'): string {
+        const [rounded] = BigScaledInteger.roundToPrecision(this, precision, rounding);
+        const { _value, _scale } = rounded;
+        const digits = (_value < 0n ? -_value : _value).toString();
+        const exponent = decimalExponent(digits, _scale);
+        if (exponent < -6 || exponent >= precision) {
+            return formatExponential(_value < 0n, digits, _scale, precision - 1);
+        }
+        const fractionDigits = precision - 1 - exponent;
+        return formatDecimal(rounded.withScale(fractionDigits), { minimumFractionDigits: fractionDigits });
+    }
+
+    toLossyNumber(): number {
+        return Number(this.toString());
+    }
+
+    normalizeTo(other: AnyScaledInteger) {
+        const otherScale = other.scale;
+        if (this._scale < otherScale) {
+            this.increaseScale(otherScale - this._scale);
+        }
+        return this;
+    }
+
+    increaseScale(scaleIncrement: number) {
+        this._value *= pow10(scaleIncrement);
+        this._scale += scaleIncrement;
+        return this;
+    }
+
+    round(scale: number, rounding: RoundingMode = 'half-even') {
+        this._round(scale, rounding);
+        return this;
+    }
+
+    ceil(scale: number = 0) {
+        this._round(scale, 'ceiling');
+        return this;
+    }
+
+    floor(scale: number = 0) {
+        this._round(scale, 'floor');
+        return this;
+    }
+
+    truncate(scale: number = 0) {
+        this._round(scale, 'toward-zero');
+        return this;
+    }
+
+    roundToPrecision(precision: number, rounding: RoundingMode = 'half-even') {
+        this._roundToPrecision(precision, rounding);
+        return this;
+    }
+
+    private _round(scale: number, rounding: RoundingMode): boolean {
+        assertScale(scale);
+        const { _value, _scale } = this;
+        if (scale >= _scale) {
+            this.increaseScale(scale - _scale);
+            return false;
+        }
+        const [value, inexact] = divideRounded(_value, pow10(_scale - scale), rounding);
+        this._value = value;
+        this._scale = scale;
+        return inexact;
+    }
+
+    private _roundToPrecision(precision: number, rounding: RoundingMode): boolean {
+        assertScale(precision, 'precision');
+        if (precision < 1) throw new ScaleError('precision must be at least 1');
+        const { _value, _scale } = this;
+        const digits = (_value < 0n ? -_value : _value).toString().length;
+        if (digits <= precision) {
+            return false;
+        }
+        const dropped = digits - precision;
+        if (dropped <= _scale) {
+            return this._round(_scale - dropped, rounding);
+        }
+        const [rounded, inexact] = divideRounded(_value, pow10(dropped), rounding);
+        this._value = rounded * pow10(dropped - _scale);
+        this._scale = 0;
+        return inexact;
+    }
+
+    trimScale() {
+        let { _value, _scale } = this;
+        if (_value === 0n) {
+            _scale = 0;
+        }
+        for (; _scale > 0 && _value % 10n === 0n; --_scale) {
+            _value /= 10n;
+        }
+        this._value = _value;
+        this._scale = _scale;
+        return this;
+    }
+
+    add(other: AnyScaledInteger): BigScaledInteger {
+        const [[lhs, rhs], scale] = BigScaledInteger.normalizedValues(this, other);
+        this._value = lhs + rhs;
+        this._scale = scale;
+        return this;
+    }
+
+    subtract(other: AnyScaledInteger): BigScaledInteger {
+        const [[lhs, rhs], scale] = BigScaledInteger.normalizedValues(this, other);
+        this._value = lhs - rhs;
+        this._scale = scale;
+        return this;
+    }
+
+    multiply(other: AnyScaledInteger): BigScaledInteger {
+        const scale = this._scale + other.scale;
+        if (!Number.isSafeInteger(scale)) {
+            throw new OverflowError('multiplication', [this.clone(), other.clone()]);
+        }
+        this._value *= BigInt(other.value);
+        this._scale = scale;
+        return this;
+    }
+
+    divide(other: AnyScaledInteger, scale: number, rounding: RoundingMode = 'half-even'): BigScaledInteger {
+        const { _value, _scale } = BigScaledInteger.divide(this, other, scale, rounding);
+        this._value = _value;
+        this._scale = _scale;
+        return this;
+    }
+
+    quotient(other: AnyScaledInteger, mode: DivisionMode = 'truncate'): BigScaledInteger {
+        const [{ _value, _scale }] = BigScaledInteger.divideWithRemainder(this, other, mode);
+        this._value = _value;
+        this._scale = _scale;
+        return this;
+    }
+
+    remainder(other: AnyScaledInteger, mode: DivisionMode = 'truncate'): BigScaledInteger {
+        const [, { _value, _scale }] = BigScaledInteger.divideWithRemainder(this, other, mode);
+        this._value = _value;
+        this._scale = _scale;
+        return this;
+    }
+
+    // Non-mutating counterparts of the arithmetic methods above. These always
+    // return a new instance and so can be used on frozen values
+
+    plus(other: AnyScaledInteger): BigScaledInteger {
+        return this.clone().add(other);
+    }
+
+    minus(other: AnyScaledInteger): BigScaledInteger {
+        return this.clone().subtract(other);
+    }
+
+    times(other: AnyScaledInteger): BigScaledInteger {
+        return this.clone().multiply(other);
+    }
+
+    dividedBy(other: AnyScaledInteger, scale: number, rounding: RoundingMode = 'half-even'): BigScaledInteger {
+        return BigScaledInteger.divide(this, other, scale, rounding);
+    }
+
+    withScale(scale: number, rounding: RoundingMode = 'half-even'): BigScaledInteger {
+        return this.clone().round(scale, rounding);
+    }
+
+    // Exact for non-negative exponents unless `scale` asks for fewer digits.
+    // Negative exponents divide to `scale`, which is then required
+    pow(exponent: number, scale?: number, rounding: RoundingMode = 'half-even'): BigScaledInteger {
+        const [value, resultScale] = powerRounded(this._value, this._scale, exponent, scale, rounding);
+        return new BigScaledInteger(value, resultScale);
+    }
+
+    sqrt(scale: number, rounding: RoundingMode = 'half-even'): BigScaledInteger {
+        return this.nthRoot(2, scale, rounding);
+    }
+
+    nthRoot(n: number, scale: number, rounding: RoundingMode = 'half-even'): BigScaledInteger {
+        return new BigScaledInteger(rootRounded(this._value, this._scale, n, scale, rounding), scale);
+    }
+
+    // Splits the value into parts proportional to `ratios` that sum back to it
+    // exactly. The value must be representable at `scale`
+    allocate(
+        ratios: (number | AnyScaledInteger)[],
+        scale: number = this._scale,
+        options: AllocateOptions = {},
+    ): BigScaledInteger[] {
+        const total = this.withScale(scale, 'unnecessary')._value;
+        const decimals = ratios.map(ratio =>
+            typeof ratio === 'number' ? ScaledInteger.fromNumber(ratio) : ratio,
+        );
+        let ratioScale = 0;
+        for (const ratio of decimals) {
+            if (ratio.scale > ratioScale) {
+                ratioScale = ratio.scale;
+            }
+        }
+        const units = decimals.map(ratio => BigInt(ratio.value) * 10n ** BigInt(ratioScale - ratio.scale));
+        const parts = allocateUnits(BigInt(total), units, options.distribution);
+        return parts.map(part => new BigScaledInteger(part, scale));
+    }
+
+    split(count: number, scale: number = this._scale, options: AllocateOptions = {}): BigScaledInteger[] {
+        if (!Number.isSafeInteger(count) || count < 1) {
+            throw new InvalidArgumentError('count', 'count must be a positive integer');
+        }
+        return this.allocate(Array<number>(count).fill(1), scale, options);
+    }
+
+    // Prevents any further in-place changes. Mutating methods throw a
+    // `TypeError` on a frozen value, while `clone` returns a mutable copy
+    freeze(): this {
+        return Object.freeze(this);
+    }
+
+    isFrozen() {
+        return Object.isFrozen(this);
+    }
+
+    // The value is serialized as a string since JSON has no bigint type
+    toJSON(): any {
+        const { _value, _scale: scale } = this;
+        return { value: _value.toString(), scale };
+    }
+}
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('stores values outside the safe integer range', () => {
+        const a = BigScaledInteger.parse('123456789012.12345678');
+        expect(a.value).toBe(12345678901212345678n);
+        expect(a.scale).toBe(8);
+        expect(a.toString()).toBe('123456789012.12345678');
+        expect(a.isSafe()).toBe(false);
+        expect(() => a.toScaledInteger()).toThrow('unsafe integer value');
+        expect(() => new BigScaledInteger(1n, -1)).toThrow();
+        expect(() => a.split(1.5)).toThrow(InvalidArgumentError);
+    });
+
+    it('parsing', () => {
+        expect(() => BigScaledInteger.parse('.')).toThrow('invalid decimal string');
+        expect(() => BigScaledInteger.parse('0.')).toThrow('invalid decimal string');
+        expect(BigScaledInteger.parse('-0').toString()).toBe('0');
+        expect(BigScaledInteger.parse('-1.0').toString()).toBe('-1');
+        expect(BigScaledInteger.parse('-0.0001').toString()).toBe('-0.0001');
+        expect(BigScaledInteger.parse('+1234.0001').toString()).toBe('1234.0001');
+        expect(BigScaledInteger.parse('00010.0001000').toString()).toBe('10.0001');
+
+        expect(() => BigScaledInteger.parseLax('..')).toThrow('invalid decimal string');
+        expect(BigScaledInteger.parseLax('').toString()).toBe('0');
+        expect(BigScaledInteger.parseLax('-.01').toString()).toBe('-0.01');
+        expect(BigScaledInteger.parseLax('1.').toString()).toBe('1');
+
+        for (const str of ['0', '-0.1', '1234.0001', '99999999999999999999.99']) {
+            expect(BigScaledInteger.parseLax(str).toString()).toBe(BigScaledInteger.parse(str).toString());
+        }
+    });
+
+    it('serializes to json', () => {
+        const a = BigScaledInteger.parse('-123456789012.12345678');
+        expect(a.toJSON()).toEqual({ value: '-12345678901212345678', scale: 8 });
+        expect(JSON.parse(JSON.stringify(a))).toEqual({ value: '-12345678901212345678', scale: 8 });
+        expect(BigScaledInteger.deserialize(a.toJSON())).toEqual(a);
+        expect(BigScaledInteger.deserialize({ value: 123, scale: 1 }).toString()).toBe('12.3');
+        expect(() => BigScaledInteger.deserialize({ value: '1.5', scale: 1 })).toThrow();
+        expect(() => BigScaledInteger.deserialize({ value: 0.5, scale: 1 })).toThrow();
+    });
+
+    it('converts to and from number-backed values', () => {
+        const a = ScaledInteger.parse('-123.456');
+        const b = BigScaledInteger.from(a);
+        expect(b.value).toBe(-123456n);
+        expect(b.scale).toBe(3);
+        expect(b.toScaledInteger()).toEqual(a);
+        expect(BigScaledInteger.from(b)).not.toBe(b);
+    });
+
+    it('mixes representations by widening', () => {
+        const small = ScaledInteger.parse('1.5');
+        const big = BigScaledInteger.parse('90071992547409.915');
+
+        expect(big.plus(small).toString()).toBe('90071992547411.415');
+        expect(BigScaledInteger.compare(small, big)).toBe(-1);
+        expect(BigScaledInteger.from(small).plus(big).toString()).toBe('90071992547411.415');
+        expect(big.minus(big).plus(small).toScaledInteger().toJSON()).toEqual({ value: 1500, scale: 3 });
+        expect(() => big.plus(small).toScaledInteger()).toThrow(OverflowError);
+
+        // Narrowing is never implicit
+        const unchecked = small as unknown as { plus(other: unknown): unknown; minus(other: unknown): unknown };
+        expect(() => unchecked.plus(big)).toThrow(InvalidArgumentError);
+        expect(() => unchecked.minus(big)).toThrow('operands must be ScaledInteger');
+        expect(() => ScaledInteger.compare(small, big as unknown as ScaledInteger)).toThrow(InvalidArgumentError);
+        expect(() => ScaledInteger.divide(big as unknown as ScaledInteger, small, 2)).toThrow(InvalidArgumentError);
+    });
+
+    it('normalizes and compares', () => {
+        const a = BigScaledInteger.parse('100');
+        const b = ScaledInteger.parse('10.01');
+        const c = BigScaledInteger.parse('1.0001');
+
+        const normalized = BigScaledInteger.normalize(a, b, c);
+        expect(normalized.map(x => x.scale)).toEqual([4, 4, 4]);
+        expect(normalized.map(x => x.toString())).toEqual(['100', '10.0100', '1.0001']);
+        expect(a.scale).toBe(0);
+
+        expect(BigScaledInteger.compare(a, b)).toBe(+1);
+        expect(BigScaledInteger.compare(c, b)).toBe(-1);
+        expect(BigScaledInteger.equal(b, ScaledInteger.parse('10.010'))).toBe(true);
+        expect(BigScaledInteger.lessThan(c, a)).toBe(true);
+        expect(BigScaledInteger.lessThanOrEqual(a, a)).toBe(true);
+        expect(BigScaledInteger.greaterThanOrEqual(c, a)).toBe(false);
+        expect(BigScaledInteger.greaterThan(a, c)).toBe(true);
+    });
+
+    it('arithmetic beyond the safe integer range', () => {
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER);
+        expect(() => max.clone().add(new ScaledInteger(1))).toThrow('addition overflow');
+
+        const a = BigScaledInteger.from(max).add(new ScaledInteger(1));
+        expect(a.toString()).toBe('9007199254740992');
+
+        const b = BigScaledInteger.parse('123456789012.12345678');
+        expect(b.clone().add(ScaledInteger.parse('0.00000002')).toString()).toBe('123456789012.12345680');
+        expect(b.clone().subtract(b).isZero()).toBe(true);
+        expect(b.clone().subtract(ScaledInteger.parse('123456789013')).toString()).toBe('-0.87654322');
+        expect(b.clone().multiply(ScaledInteger.parse('-2')).toString()).toBe('-246913578024.24691356');
+        expect(b.clone().multiply(b).trimScale().scale).toBe(16);
+    });
+
+    it('division and rounding', () => {
+        const a = BigScaledInteger.parse('100000000000000000000');
+        expect(BigScaledInteger.divide(a, ScaledInteger.parse('3'), 2).toString()).toBe(
+            '33333333333333333333.33',
+        );
+        expect(a.clone().divide(ScaledInteger.parse('-8'), 0, 'floor').toString()).toBe('-12500000000000000000');
+        expect(() => a.clone().divide(BigScaledInteger.parse('0'), 2)).toThrow('division by zero');
+
+        const [q, r] = BigScaledInteger.divideWithRemainder(BigScaledInteger.parse('-7'), new ScaledInteger(2), 'floor');
+        expect([q.toString(), r.toString()]).toEqual(['-4', '1']);
+        expect(BigScaledInteger.parse('-7').quotient(new ScaledInteger(2)).toString()).toBe('-3');
+        expect(BigScaledInteger.parse('-7').remainder(new ScaledInteger(-2), 'euclidean').toString()).toBe('1');
+
+        const b = BigScaledInteger.parse('-123456789012.12345678');
+        expect(b.clone().round(2).toString()).toBe('-123456789012.12');
+        expect(b.clone().ceil().toString()).toBe('-123456789012');
+        expect(b.clone().floor().toString()).toBe('-123456789013');
+        expect(b.clone().truncate(4).toString()).toBe('-123456789012.1234');
+        expect(b.clone().roundToPrecision(3).toString()).toBe('-123000000000');
+        expect(BigScaledInteger.round(b, 8)).toEqual([b, false]);
+        expect(BigScaledInteger.round(b, 7)[1]).toBe(true);
+        expect(BigScaledInteger.roundToPrecision(b, 20)[1]).toBe(false);
+    });
+
+    it('units', () => {
+        const a = BigScaledInteger.parse('-0.05');
+        expect(a.toUnits()).toEqual([0n, 5n]);
+        expect(a.hasSubUnits()).toBe(true);
+        expect(a.isNegative()).toBe(true);
+        expect(a.isPositive()).toBe(false);
+        expect(a.toLossyNumber()).toBe(-0.05);
+        expect(BigScaledInteger.parse('12.000').hasSubUnits()).toBe(false);
+    });
+
+    it('immutable arithmetic', () => {
+        const a = BigScaledInteger.parse('123456789012.5').freeze();
+        const b = ScaledInteger.parse('0.25');
+
+        expect(a.plus(b).toString()).toBe('123456789012.75');
+        expect(a.minus(b).toString()).toBe('123456789012.25');
+        expect(a.times(b).toString()).toBe('30864197253.125');
+        expect(a.dividedBy(b, 0).toString()).toBe('493827156050');
+        expect(a.withScale(0).toString()).toBe('123456789012');
+        expect(a.toString()).toBe('123456789012.5');
+        expect(() => a.subtract(b)).toThrow(TypeError);
+        expect(a.clone().isFrozen()).toBe(false);
+    });
+
+    it('formats', () => {
+        const a = BigScaledInteger.parse('-123456789012.12345678');
+        expect(a.format({ groupSeparator: ',', maximumFractionDigits: 2 })).toBe('-123,456,789,012.12');
+        expect(a.format({ signDisplay: 'never', groupSeparator: ' ' })).toBe('123 456 789 012.12345678');
+    });
+
+    it('locale parsing', () => {
+        const result = BigScaledInteger.parseLocale('90,071,992,547,409,920.25');
+        expect(result.ok && result.value.toString()).toBe('90071992547409920.25');
+        expect(BigScaledInteger.parseLocale('1..5')).toMatchObject({ ok: false, error: { position: 2 } });
+    });
+
+    it('powers and roots', () => {
+        const d = BigScaledInteger.parse;
+        expect(d('2').pow(100).toString()).toBe('1267650600228229401496703205376');
+        expect(d('1.01').pow(3).toString()).toBe('1.030301');
+        expect(d('4').pow(-1, 2).toString()).toBe('0.25');
+        expect(d('2').sqrt(30).toString()).toBe('1.414213562373095048801688724210');
+        expect(d('1000000000000000000000000000').nthRoot(3, 0, 'unnecessary').toString()).toBe('1000000000');
+    });
+
+    it('reports parse failures without throwing', () => {
+        expect(BigScaledInteger.tryParse('12.3x')).toMatchObject({ ok: false, error: { position: 4 } });
+        expect(BigScaledInteger.tryParseLax('.5')).toMatchObject({ ok: true, value: { value: 5n, scale: 1 } });
+        expect(() => BigScaledInteger.parse('1.')).toThrow(ParseError);
+        expect(() => BigScaledInteger.deserialize({ value: '12a', scale: 0 })).toThrow(
+            expect.objectContaining({ position: 2 }),
+        );
+    });
+
+    it('allocates', () => {
+        const a = BigScaledInteger.parse('100000000000000000000.00');
+        expect(a.split(3, 2).map(String)).toEqual([
+            '33333333333333333333.34',
+            '33333333333333333333.33',
+            '33333333333333333333.33',
+        ]);
+        expect(a.allocate([BigScaledInteger.parse('0.5'), ScaledInteger.parse('0.5')], 0).map(String)).toEqual([
+            '50000000000000000000',
+            '50000000000000000000',
+        ]);
+    });
+
+    it('exponent notation', () => {
+        const a = BigScaledInteger.parseExponential('1.2345678901234567890e25');
+        expect(a.toString()).toBe('12345678901234567890000000');
+        expect(a.toExponential(3)).toBe('1.235e+25');
+        expect(a.toEngineering(5)).toBe('12.346e+24');
+        expect(a.toPrecision(30)).toBe('12345678901234567890000000.0000');
+        expect(BigScaledInteger.parseExponential('-5E-20').toString()).toBe('-0.00000000000000000005');
+        expect(BigScaledInteger.parseExponential('1.500e2').toJSON()).toEqual({ value: '150', scale: 0 });
+        expect(BigScaledInteger.parseExponential('0e-20000').scale).toBe(0);
+        expect(BigScaledInteger.parseExponential('0e100000000').isZero()).toBe(true);
+        expect(BigScaledInteger.parseExponential('1e100000').toString()).toHaveLength(100_001);
+        expect(() => BigScaledInteger.parseExponential('1e100000000')).toThrow(OverflowError);
+        expect(() => BigScaledInteger.parseExponential('1e-100000000')).toThrow(ScaleError);
+        expect(new BigScaledInteger(0n, 20000).trimScale().scale).toBe(0);
+        expect(new BigScaledInteger(1200n, 3).trimScale().toJSON()).toEqual({ value: '12', scale: 1 });
+    });
+
+    it('converts to and from numbers and bigints', () => {
+        const a = BigScaledInteger.fromNumber(0.1, { mode: 'exact' });
+        expect(a.toString()).toBe('0.1000000000000000055511151231257827021181583404541015625');
+        expect(BigScaledInteger.fromNumber(1e21).toString()).toBe('1000000000000000000000');
+        expect(BigScaledInteger.fromBigInt(2n ** 64n, 2).toString()).toBe('184467440737095516.16');
+        expect(a.toBigInt(3, 'ceiling')).toBe(101n);
+        expect(BigScaledInteger.parse('1.5').toBigInt(30)).toBe(15n * 10n ** 29n);
+    });
+}
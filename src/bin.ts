@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { createInterface } from 'node:readline';
+import { run } from './cli.js';
+
+process.exitCode = await run(process.argv.slice(2), {
+    stdin: () => createInterface({ input: process.stdin, crlfDelay: Infinity }),
+    stdout: line => process.stdout.write(`${line}\n`),
+    stderr: line => process.stderr.write(`${line}\n`),
+});
@@ -0,0 +1,433 @@
+import { Accumulator } from './aggregate.js';
+import { BigScaledInteger, type AnyScaledInteger } from './big-scaled-integer.js';
+import { decimalStringCodec } from './codec.js';
+import { DecimalContext } from './context.js';
+import { ParseError, ScaledIntegerError, assertScale } from './errors.js';
+import { ROUNDING_MODES, type RoundingMode } from './rounding.js';
+import { ScaledInteger } from './scaled-integer.js';
+
+export type OutputFormat = 'plain' | 'json' | 'canonical';
+
+export interface CliIO {
+    // Called at most once, and only by commands that read a CSV
+    stdin(): AsyncIterable<string> | Iterable<string>;
+    stdout(line: string): void;
+    stderr(line: string): void;
+}
+
+interface CliOptions {
+    scale: number | undefined;
+    rounding: RoundingMode;
+    format: OutputFormat;
+    delimiter: string;
+}
+
+const USAGE = `usage: scaled-integer <command> [options]
+
+commands:
+  calc <expression>    evaluate an expression such as "(12.50 + 3.75) * 1.08"
+  sum <column>         sum a column of the CSV read from stdin
+  average <column>     average a column of the CSV read from stdin
+  round <column>       round a column to --scale digits and write the CSV back
+  rescale <column>     set a column to exactly --scale digits and write the CSV back
+
+options:
+  --scale <n>          digits after the decimal point of the result
+  --rounding <mode>    ${ROUNDING_MODES.join(', ')} (default half-even)
+  --format <format>    plain, json or canonical (default plain)
+  --delimiter <char>   CSV field separator (default ,)
+
+Cells that do not parse or cannot be rounded are reported with their line
+number and skipped, and the exit code is then 1.`;
+
+const FORMATS: readonly OutputFormat[] = ['plain', 'json', 'canonical'];
+
+// Bad command lines, reported with the usage text and exit code 2
+class UsageError extends Error {}
+
+const parseOptions = (args: readonly string[]): [string[], CliOptions] => {
+    const positional: string[] = [];
+    const values = new Map<string, string>();
+    for (let i = 0; i < args.length; ++i) {
+        const arg = args[i]!;
+        if (arg === '--') {
+            positional.push(...args.slice(i + 1));
+            break;
+        }
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+        const [name, inline] = arg.slice(2).split(/=(.*)/s);
+        if (!['scale', 'rounding', 'format', 'delimiter'].includes(name!)) {
+            throw new UsageError(`unknown option: --${name}`);
+        }
+        const value = inline ?? args[++i];
+        if (value === undefined) throw new UsageError(`missing value for --${name}`);
+        values.set(name!, value);
+    }
+
+    const scale = values.get('scale');
+    const rounding = values.get('rounding') ?? 'half-even';
+    const format = values.get('format') ?? 'plain';
+    const delimiter = values.get('delimiter') ?? ',';
+    if (scale !== undefined && !/^[0-9]+$/.test(scale)) throw new UsageError(`invalid scale: ${scale}`);
+    if (!ROUNDING_MODES.includes(rounding as RoundingMode)) throw new UsageError(`invalid rounding mode: ${rounding}`);
+    if (!FORMATS.includes(format as OutputFormat)) throw new UsageError(`invalid format: ${format}`);
+    if (delimiter.length !== 1 || delimiter === '"') throw new UsageError(`invalid delimiter: ${delimiter}`);
+    const options: CliOptions = {
+        scale: scale === undefined ? undefined : Number(scale),
+        rounding: rounding as RoundingMode,
+        format: format as OutputFormat,
+        delimiter,
+    };
+    if (options.scale !== undefined) {
+        assertScale(options.scale);
+    }
+    return [positional, options];
+};
+
+const formatValue = (value: AnyScaledInteger, format: OutputFormat): string => {
+    switch (format) {
+        case 'plain':
+            return value.toString();
+        case 'json':
+            return JSON.stringify(value.toJSON());
+        case 'canonical':
+            return decimalStringCodec.encode(value);
+    }
+};
+
+// Fields of one CSV line, with RFC 4180 quoting. Quoted fields cannot span
+// lines. Returns undefined for an unterminated quote
+export const splitCsvLine = (line: string, delimiter: string = ','): string[] | undefined => {
+    const fields: string[] = [];
+    let i = 0;
+    for (;;) {
+        let field = '';
+        if (line[i] === '"') {
+            ++i;
+            for (;;) {
+                const end = line.indexOf('"', i);
+                if (end === -1) return;
+                field += line.slice(i, end);
+                i = end + 1;
+                if (line[i] !== '"') break;
+                field += '"';
+                ++i;
+            }
+            const next = line.indexOf(delimiter, i);
+            field += line.slice(i, next === -1 ? line.length : next);
+            i = next === -1 ? line.length : next;
+        } else {
+            const next = line.indexOf(delimiter, i);
+            field = line.slice(i, next === -1 ? line.length : next);
+            i = next === -1 ? line.length : next;
+        }
+        fields.push(field);
+        if (i >= line.length) return fields;
+        ++i;
+    }
+};
+
+export const joinCsvLine = (fields: readonly string[], delimiter: string = ','): string => {
+    return fields
+        .map(field =>
+            field.includes(delimiter) || field.includes('"') || /[\r\n]/.test(field)
+                ? `"${field.replaceAll('"', '""')}"`
+                : field,
+        )
+        .join(delimiter);
+};
+
+const calc = (expression: string, options: CliOptions, io: CliIO): number => {
+    const { scale, rounding } = options;
+    let result: ScaledInteger;
+    try {
+        if (scale === undefined) {
+            result = ScaledInteger.evaluate(expression);
+        } else {
+            const context = new DecimalContext({ scale, rounding });
+            result = context.run(() => ScaledInteger.evaluate(expression, {}, context)).withScale(scale, rounding);
+        }
+    } catch (error) {
+        if (error instanceof ParseError) {
+            io.stderr(`error: ${error.message}`);
+            io.stderr(`  ${expression}`);
+            io.stderr(`  ${' '.repeat(error.position)}^`);
+            return 1;
+        }
+        throw error;
+    }
+    io.stdout(formatValue(result, options.format));
+    return 0;
+};
+
+type CsvCommand = 'sum' | 'average' | 'round' | 'rescale';
+
+const csv = async (command: CsvCommand, column: string, options: CliOptions, io: CliIO): Promise<number> => {
+    const { scale, rounding, format, delimiter } = options;
+    const transform = command === 'round' || command === 'rescale';
+    if (transform && scale === undefined) throw new UsageError(`${command} requires --scale`);
+    if (transform && format === 'json') throw new UsageError(`${command} writes CSV, use plain or canonical`);
+
+    // Sums are kept as a BigScaledInteger so that totals beyond the safe
+    // integer range are still printed
+    const accumulator = new Accumulator();
+    let total = new BigScaledInteger(0n);
+    let index: number | undefined;
+    let failures = 0;
+    let lineNumber = 0;
+    const fail = (message: string) => {
+        io.stderr(`line ${lineNumber}: ${message}`);
+        failures += 1;
+    };
+
+    for await (const line of io.stdin()) {
+        lineNumber += 1;
+        if (index === undefined) {
+            const header = splitCsvLine(line, delimiter) ?? [];
+            index = header.indexOf(column);
+            if (index === -1) throw new UsageError(`unknown column: ${column}`);
+            if (transform) io.stdout(line);
+            continue;
+        }
+        if (line.trim() === '') {
+            continue;
+        }
+        const fields = splitCsvLine(line, delimiter);
+        const cell = fields?.[index];
+        if (cell === undefined) {
+            fail(fields ? 'missing column' : 'unterminated quote');
+            if (transform) io.stdout(line);
+            continue;
+        }
+        if (cell.trim() === '') {
+            if (transform) io.stdout(line);
+            continue;
+        }
+        const parsed = ScaledInteger.tryParse(cell.trim());
+        if (!parsed.ok) {
+            fail(`${parsed.error.message}: ${JSON.stringify(cell)}`);
+            if (transform) io.stdout(line);
+            continue;
+        }
+        if (command === 'sum') {
+            total = total.add(parsed.value);
+            continue;
+        }
+        if (command === 'average') {
+            accumulator.add(parsed.value);
+            continue;
+        }
+        const value = parsed.value;
+        let result: ScaledInteger;
+        try {
+            result = command === 'rescale' || value.scale > scale! ? value.withScale(scale!, rounding) : value;
+        } catch (error) {
+            if (!(error instanceof ScaledIntegerError)) throw error;
+            fail(`${error.message}: ${JSON.stringify(cell)}`);
+            io.stdout(line);
+            continue;
+        }
+        fields![index] = format === 'canonical' ? decimalStringCodec.encode(result) : result.toString();
+        io.stdout(joinCsvLine(fields!, delimiter));
+    }
+    if (index === undefined) throw new UsageError('expected a CSV header on stdin');
+
+    if (command === 'sum') {
+        const result = scale === undefined ? total : total.withScale(scale, rounding);
+        io.stdout(formatValue(result.isSafe() ? result.toScaledInteger() : result, format));
+    } else if (command === 'average') {
+        if (accumulator.count === 0) {
+            io.stderr('error: no values to average');
+            return 1;
+        }
+        io.stdout(formatValue(accumulator.mean({ ...(scale === undefined ? {} : { scale }), rounding }), format));
+    }
+    return failures > 0 ? 1 : 0;
+};
+
+// Runs the `scaled-integer` command and resolves to its exit code
+export const run = async (args: readonly string[], io: CliIO): Promise<number> => {
+    if (args[0] === 'help' || args.includes('--help')) {
+        io.stdout(USAGE);
+        return 0;
+    }
+    try {
+        const [positional, options] = parseOptions(args);
+        const [command, argument, ...rest] = positional;
+        if (command === undefined) throw new UsageError('missing command');
+        if (argument === undefined || rest.length > 0) {
+            throw new UsageError(`${command} takes exactly one argument`);
+        }
+        switch (command) {
+            case 'calc':
+                return calc(argument, options, io);
+            case 'sum':
+            case 'average':
+            case 'round':
+            case 'rescale':
+                return await csv(command, argument, options, io);
+            default:
+                throw new UsageError(`unknown command: ${command}`);
+        }
+    } catch (error) {
+        if (error instanceof UsageError) {
+            io.stderr(`error: ${error.message}`);
+            io.stderr(USAGE);
+            return 2;
+        }
+        if (error instanceof ScaledIntegerError) {
+            io.stderr(`error: ${error.message}`);
+            return 1;
+        }
+        throw error;
+    }
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const exec = async (args: string[], input: string[] = []) => {
+        const stdout: string[] = [];
+        const stderr: string[] = [];
+        const code = await run(args, {
+            stdin: () => input,
+            stdout: line => stdout.push(line),
+            stderr: line => stderr.push(line),
+        });
+        return { code, stdout, stderr };
+    };
+
+    it('calculates', async () => {
+        expect(await exec(['calc', '0.1 + 0.2'])).toEqual({ code: 0, stdout: ['0.3'], stderr: [] });
+        expect((await exec(['calc', '(12.50 + 3.75) * 1.08'])).stdout).toEqual(['17.5500']);
+        expect((await exec(['calc', '--format', 'json', '0.1 + 0.2'])).stdout).toEqual(['{"value":3,"scale":1}']);
+        expect((await exec(['calc', '1.5 * 2', '--format=canonical'])).stdout).toEqual(['3.0']);
+        expect((await exec(['calc', '1 / 3', '--scale', '4'])).stdout).toEqual(['0.3333']);
+        expect((await exec(['calc', '2 / 3', '--scale=2', '--rounding=floor'])).stdout).toEqual(['0.66']);
+        expect((await exec(['calc', '1', '--scale', '2', '--format', 'canonical'])).stdout).toEqual(['1.00']);
+        expect((await exec(['calc', '--', '-1 + 2'])).stdout).toEqual(['1']);
+        expect((await exec(['calc', '-1 + 2'])).stdout).toEqual(['1']);
+    });
+
+    it('reports calculation errors', async () => {
+        expect(await exec(['calc', '1 + * 2'])).toEqual({
+            code: 1,
+            stdout: [],
+            stderr: ["error: unexpected '*'", '  1 + * 2', '      ^'],
+        });
+        expect(await exec(['calc', '1 / 3'])).toMatchObject({ code: 1, stderr: ['error: rounding necessary'] });
+        expect(await exec(['calc', '1 / 0', '--scale', '2'])).toMatchObject({ code: 1 });
+    });
+
+    it('rejects bad command lines', async () => {
+        const usage = async (args: string[]) => {
+            const { code, stderr } = await exec(args);
+            expect(code).toBe(2);
+            return stderr[0];
+        };
+        expect(await usage([])).toBe('error: missing command');
+        expect(await usage(['frobnicate', 'x'])).toBe('error: unknown command: frobnicate');
+        expect(await usage(['calc'])).toBe('error: calc takes exactly one argument');
+        expect(await usage(['calc', '1', '2'])).toBe('error: calc takes exactly one argument');
+        expect(await usage(['calc', '1', '--scale', '-1'])).toBe('error: invalid scale: -1');
+        expect(await usage(['calc', '1', '--scale'])).toBe('error: missing value for --scale');
+        expect(await usage(['calc', '1', '--rounding', 'up'])).toBe('error: invalid rounding mode: up');
+        expect(await usage(['calc', '1', '--format', 'xml'])).toBe('error: invalid format: xml');
+        expect(await usage(['calc', '1', '--precision', '3'])).toBe('error: unknown option: --precision');
+        expect(await usage(['round', 'amount'])).toBe('error: round requires --scale');
+        expect((await exec(['--help'])).stdout[0]).toMatch(/^usage: scaled-integer/);
+    });
+
+    const orders = [
+        'id,amount,note',
+        '1,12.50,first',
+        '2,0.125,',
+        '3,abc,bad',
+        '',
+        '4,"1,000.5","quoted, ""note"""',
+        '5',
+    ];
+
+    it('aggregates CSV columns', async () => {
+        expect(await exec(['sum', 'amount'], orders.slice(0, 3))).toEqual({ code: 0, stdout: ['12.625'], stderr: [] });
+        expect(await exec(['sum', 'amount'], orders)).toEqual({
+            code: 1,
+            stdout: ['12.625'],
+            stderr: [
+                'line 4: invalid decimal string: "abc"',
+                'line 6: invalid decimal string: "1,000.5"',
+                'line 7: missing column',
+            ],
+        });
+        expect((await exec(['sum', 'id', '--format', 'json'], orders)).stdout).toEqual(['{"value":15,"scale":0}']);
+        expect((await exec(['sum', 'amount', '--scale', '2'], orders.slice(0, 3))).stdout).toEqual(['12.62']);
+        expect((await exec(['average', 'amount'], orders.slice(0, 3))).stdout).toEqual(['6.312']);
+        expect((await exec(['average', 'amount', '--scale', '2', '--format', 'canonical'], orders)).stdout).toEqual([
+            '6.31',
+        ]);
+        expect(await exec(['average', 'amount'], ['amount'])).toMatchObject({ code: 1 });
+        expect(await exec(['sum', 'total'], orders)).toMatchObject({
+            code: 2,
+            stderr: ['error: unknown column: total', USAGE],
+        });
+        expect(await exec(['sum', 'total'], [])).toMatchObject({ code: 2 });
+        expect((await exec(['sum', 'b', '--delimiter', ';'], ['a;b', '1;2,5', '2;0.5'])).stdout).toEqual(['0.5']);
+    });
+
+    it('rewrites CSV columns', async () => {
+        const input = ['id,amount', '1,12.5', '2,0.125', '3,x', '4,-7'];
+        expect(await exec(['round', 'amount', '--scale', '2'], input)).toEqual({
+            code: 1,
+            stdout: ['id,amount', '1,12.5', '2,0.12', '3,x', '4,-7'],
+            stderr: ['line 4: invalid decimal string: "x"'],
+        });
+        expect((await exec(['rescale', 'amount', '--scale', '2', '--format', 'canonical'], input)).stdout).toEqual([
+            'id,amount',
+            '1,12.50',
+            '2,0.12',
+            '3,x',
+            '4,-7.00',
+        ]);
+        expect((await exec(['rescale', 'amount', '--scale', '1', '--rounding', 'ceiling'], input)).stdout[2]).toBe(
+            '2,0.2',
+        );
+        expect((await exec(['round', 'b', '--scale', '0'], ['a,b', '"x,y",1.5'])).stdout).toEqual(['a,b', '"x,y",2']);
+        expect(await exec(['rescale', 'amount', '--scale', '2', '--format', 'json'], input)).toMatchObject({ code: 2 });
+    });
+
+    it('reports cells that cannot be rescaled and continues', async () => {
+        const input = ['a,b', '1,1.5', '2,0.125', '3,3'];
+        expect(await exec(['rescale', 'b', '--scale', '2', '--rounding', 'unnecessary'], input)).toEqual({
+            code: 1,
+            stdout: ['a,b', '1,1.50', '2,0.125', '3,3'],
+            stderr: ['line 3: rounding necessary: "0.125"'],
+        });
+        expect(await exec(['rescale', 'b', '--scale', '4'], ['a,b', '1,9007199254740.991', '2,1.5'])).toEqual({
+            code: 1,
+            stdout: ['a,b', '1,9007199254740.991', '2,1.5000'],
+            stderr: ['line 2: rescaling overflow: "9007199254740.991"'],
+        });
+    });
+
+    it('sums beyond the safe integer range', async () => {
+        const input = ['amount', '9007199254740991', '9007199254740991', '0.5'];
+        expect(await exec(['sum', 'amount'], input)).toEqual({ code: 0, stdout: ['18014398509481982.5'], stderr: [] });
+        expect((await exec(['sum', 'amount', '--scale', '0', '--format', 'json'], input)).stdout).toEqual([
+            '{"value":"18014398509481982","scale":0}',
+        ]);
+    });
+
+    it('splits CSV lines', () => {
+        expect(splitCsvLine('a,b,,c')).toEqual(['a', 'b', '', 'c']);
+        expect(splitCsvLine('')).toEqual(['']);
+        expect(splitCsvLine('a,')).toEqual(['a', '']);
+        expect(splitCsvLine('"a,b","say ""hi""",c')).toEqual(['a,b', 'say "hi"', 'c']);
+        expect(splitCsvLine('"open,b')).toBeUndefined();
+        expect(splitCsvLine('a;b', ';')).toEqual(['a', 'b']);
+        expect(joinCsvLine(['a,b', 'say "hi"', 'c'])).toBe('"a,b","say ""hi""",c');
+    });
+}
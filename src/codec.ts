@@ -0,0 +1,266 @@
+import { BigScaledInteger, type AnyScaledInteger } from './big-scaled-integer.js';
+import { DecodeError, InvalidArgumentError, OverflowError, ParseError, ScaleError, assertScale } from './errors.js';
+import { ScaledInteger } from './scaled-integer.js';
+import { invalidDecimalPosition } from './util.js';
+
+// Decoding never trusts its input: anything that is not the exact output of
+// `encode` for some value is rejected. Values decode to `BigScaledInteger` so
+// that no codec is limited to safe integers, use `toScaledInteger()` to narrow
+export interface Codec<T> {
+    encode(value: AnyScaledInteger): T;
+    decode(encoded: T): BigScaledInteger;
+}
+
+const CANONICAL_DECIMAL_REGEX = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?$/;
+
+// Index of the first character that keeps `str` from being canonical
+const invalidCanonicalPosition = (str: string): number => {
+    const position = invalidDecimalPosition(str, false);
+    if (position < str.length || str.endsWith('.')) {
+        return position;
+    }
+    // Leading zeros and negative zero are the only remaining reasons
+    const start = str.startsWith('-') ? 1 : 0;
+    return str[start] === '0' && str[start + 1] !== '.' && start + 1 < str.length ? start + 1 : 0;
+};
+
+// Decimal strings that keep the scale, such as `-12.50` for a value of -1250
+// at scale 2. There is exactly one string per value and scale: no exponent,
+// no plus sign, no leading zeros and no negative zero
+export const decimalStringCodec: Codec<string> = Object.freeze({
+    encode(value: AnyScaledInteger): string {
+        const unscaled = BigInt(value.value);
+        const { scale } = value;
+        const digits = (unscaled < 0n ? -unscaled : unscaled).toString().padStart(scale + 1, '0');
+        const major = digits.slice(0, digits.length - scale);
+        const minor = digits.slice(digits.length - scale);
+        return `${unscaled < 0n ? '-' : ''}${major}${scale > 0 ? `.${minor}` : ''}`;
+    },
+
+    decode(encoded: string): BigScaledInteger {
+        if (typeof encoded !== 'string') {
+            throw new ParseError(String(encoded), 0, 'expected a string');
+        }
+        if (!CANONICAL_DECIMAL_REGEX.test(encoded)) {
+            throw new ParseError(encoded, invalidCanonicalPosition(encoded), 'non-canonical decimal string');
+        }
+        const [major, minor = ''] = encoded.replace('-', '').split('.');
+        const magnitude = BigInt(major! + minor);
+        if (encoded.startsWith('-') && magnitude === 0n) {
+            throw new ParseError(encoded, 0, 'negative zero');
+        }
+        return new BigScaledInteger(encoded.startsWith('-') ? -magnitude : magnitude, minor.length);
+    },
+});
+
+// The scale as a single byte followed by the value as a zigzag LEB128
+// varint, so small values of either sign take few bytes. Scales above 255
+// cannot be encoded
+export const binaryCodec: Codec<Uint8Array> = Object.freeze({
+    encode(value: AnyScaledInteger): Uint8Array {
+        const { scale } = value;
+        if (scale > 0xff) {
+            throw new ScaleError('scale must be at most 255');
+        }
+        const unscaled = BigInt(value.value);
+        let zigzag = unscaled < 0n ? -unscaled * 2n - 1n : unscaled * 2n;
+        const bytes = [scale];
+        do {
+            const byte = Number(zigzag & 0x7fn);
+            zigzag >>= 7n;
+            bytes.push(zigzag === 0n ? byte : byte | 0x80);
+        } while (zigzag !== 0n);
+        return Uint8Array.from(bytes);
+    },
+
+    decode(encoded: Uint8Array): BigScaledInteger {
+        if (!(encoded instanceof Uint8Array)) {
+            throw new DecodeError(0, 'expected a Uint8Array');
+        }
+        const { length } = encoded;
+        if (length < 2) {
+            throw new DecodeError(length, 'unexpected end of input');
+        }
+        const scale = encoded[0]!;
+        let zigzag = 0n;
+        let shift = 0n;
+        for (let i = 1; i < length; ++i) {
+            const byte = encoded[i]!;
+            zigzag |= BigInt(byte & 0x7f) << shift;
+            shift += 7n;
+            if ((byte & 0x80) === 0) {
+                if (byte === 0 && i > 1) {
+                    throw new DecodeError(i, 'non-canonical varint');
+                }
+                if (i !== length - 1) {
+                    throw new DecodeError(i + 1, 'unexpected trailing bytes');
+                }
+                const value = zigzag & 1n ? -(zigzag >> 1n) - 1n : zigzag >> 1n;
+                return new BigScaledInteger(value, scale);
+            }
+        }
+        throw new DecodeError(length, 'unexpected end of input');
+    },
+});
+
+// Fixed-width keys for one scale whose unsigned byte order matches
+// `ScaledInteger.compare`: the value is offset by half the range and written
+// big-endian. Values with more fraction digits than `scale` are rejected
+// rather than rounded, as two different values must never share a key
+export const sortableCodec = (scale: number, byteLength: number = 16): Codec<Uint8Array> => {
+    assertScale(scale);
+    if (!Number.isSafeInteger(byteLength) || byteLength < 1) {
+        throw new InvalidArgumentError('byteLength', 'byteLength must be a positive integer');
+    }
+    const bits = BigInt(byteLength * 8);
+    const bias = 1n << (bits - 1n);
+    const limit = 1n << bits;
+
+    return Object.freeze({
+        encode(value: AnyScaledInteger): Uint8Array {
+            let unsigned = BigScaledInteger.from(value).toBigInt(scale) + bias;
+            if (unsigned < 0n || unsigned >= limit) {
+                throw new OverflowError('encoding', [value.clone()], `value does not fit in ${byteLength} bytes`);
+            }
+            const bytes = new Uint8Array(byteLength);
+            for (let i = byteLength - 1; i >= 0; --i) {
+                bytes[i] = Number(unsigned & 0xffn);
+                unsigned >>= 8n;
+            }
+            return bytes;
+        },
+
+        decode(encoded: Uint8Array): BigScaledInteger {
+            if (!(encoded instanceof Uint8Array)) {
+                throw new DecodeError(0, 'expected a Uint8Array');
+            }
+            if (encoded.length !== byteLength) {
+                throw new DecodeError(Math.min(encoded.length, byteLength), `expected ${byteLength} bytes`);
+            }
+            let unsigned = 0n;
+            for (const byte of encoded) {
+                unsigned = (unsigned << 8n) | BigInt(byte);
+            }
+            return new BigScaledInteger(unsigned - bias, scale);
+        },
+    });
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const d = ScaledInteger.parse;
+
+    it('encodes canonical decimal strings', () => {
+        const { encode, decode } = decimalStringCodec;
+        expect(encode(new ScaledInteger(1250, 2))).toBe('12.50');
+        expect(encode(new ScaledInteger(-5, 3))).toBe('-0.005');
+        expect(encode(new ScaledInteger(0, 2))).toBe('0.00');
+        expect(encode(new ScaledInteger(-42))).toBe('-42');
+        expect(encode(new BigScaledInteger(-(10n ** 30n), 2))).toBe('-10000000000000000000000000000.00');
+
+        expect(decode('12.50').toJSON()).toEqual({ value: '1250', scale: 2 });
+        expect(decode('-0.005').toJSON()).toEqual({ value: '-5', scale: 3 });
+        expect(decode('0').toJSON()).toEqual({ value: '0', scale: 0 });
+        for (const value of ['0.00', '-42', '123456789012345678901234567890.5']) {
+            expect(encode(decode(value))).toBe(value);
+        }
+    });
+
+    it('rejects non-canonical decimal strings', () => {
+        const { decode } = decimalStringCodec;
+        const failure = (str: string) => {
+            try {
+                decode(str);
+            } catch (error) {
+                return error;
+            }
+            return;
+        };
+        expect(failure('012')).toMatchObject({ position: 1, message: 'non-canonical decimal string' });
+        expect(failure('-00.1')).toMatchObject({ position: 2 });
+        expect(failure('+1')).toMatchObject({ position: 0 });
+        expect(failure('1.')).toMatchObject({ position: 2 });
+        expect(failure('.5')).toMatchObject({ position: 0 });
+        expect(failure('1e5')).toMatchObject({ position: 1 });
+        expect(failure(' 1')).toMatchObject({ position: 0 });
+        expect(failure('-0.00')).toMatchObject({ position: 0, message: 'negative zero' });
+        expect(failure('')).toBeInstanceOf(ParseError);
+        expect(failure(12 as unknown as string)).toMatchObject({ message: 'expected a string' });
+    });
+
+    it('encodes compact binary', () => {
+        const { encode, decode } = binaryCodec;
+        expect([...encode(d('0'))]).toEqual([0, 0]);
+        expect([...encode(d('-1'))]).toEqual([0, 1]);
+        expect([...encode(d('1'))]).toEqual([0, 2]);
+        expect([...encode(d('-0.64'))]).toEqual([2, 127]);
+        expect([...encode(d('0.64'))]).toEqual([2, 128, 1]);
+        expect([...encode(new ScaledInteger(Number.MAX_SAFE_INTEGER))]).toHaveLength(9);
+
+        const values = [
+            d('0'),
+            d('123.456'),
+            d('-99.99'),
+            new ScaledInteger(Number.MIN_SAFE_INTEGER, 4),
+            new BigScaledInteger(-(2n ** 100n), 255),
+        ];
+        for (const value of values) {
+            const decoded = decode(encode(value));
+            expect(decoded.toJSON()).toEqual(BigScaledInteger.from(value).toJSON());
+        }
+        expect(() => encode(new ScaledInteger(1, 256))).toThrow(ScaleError);
+    });
+
+    it('rejects malformed binary', () => {
+        const { decode } = binaryCodec;
+        const failure = (bytes: number[]) => {
+            try {
+                decode(Uint8Array.from(bytes));
+            } catch (error) {
+                expect(error).toBeInstanceOf(DecodeError);
+                return error;
+            }
+            return;
+        };
+        expect(failure([])).toMatchObject({ position: 0, message: 'unexpected end of input' });
+        expect(failure([2])).toMatchObject({ position: 1 });
+        expect(failure([2, 0x80])).toMatchObject({ position: 2, message: 'unexpected end of input' });
+        expect(failure([2, 0x82, 0x00])).toMatchObject({ position: 2, message: 'non-canonical varint' });
+        expect(failure([2, 0x02, 0x00])).toMatchObject({ position: 2, message: 'unexpected trailing bytes' });
+        expect(() => decode([0, 2] as unknown as Uint8Array)).toThrow('expected a Uint8Array');
+    });
+
+    it('encodes sortable keys', () => {
+        const codec = sortableCodec(4, 8);
+        const values = ['-1000', '-1.5', '-1.0001', '-0.0001', '0', '0.0001', '1.5', '2', '99999.9999'].map(d);
+        const keys = values.map(value => codec.encode(value));
+        const compareBytes = (a: Uint8Array, b: Uint8Array) => {
+            for (let i = 0; i < a.length; ++i) {
+                if (a[i] !== b[i]) return a[i]! < b[i]! ? -1 : 1;
+            }
+            return 0;
+        };
+        for (let i = 0; i < values.length; ++i) {
+            for (let j = 0; j < values.length; ++j) {
+                expect(compareBytes(keys[i]!, keys[j]!)).toBe(ScaledInteger.compare(values[i]!, values[j]!));
+            }
+        }
+        expect(codec.decode(keys[1]!).toJSON()).toEqual({ value: '-15000', scale: 4 });
+        expect([...codec.encode(d('0'))]).toEqual([0x80, 0, 0, 0, 0, 0, 0, 0]);
+        expect(compareBytes(codec.encode(d('1.5')), codec.encode(new ScaledInteger(150, 2)))).toBe(0);
+    });
+
+    it('validates sortable keys', () => {
+        const codec = sortableCodec(2, 2);
+        expect(() => codec.encode(d('327.67'))).not.toThrow();
+        expect(() => codec.encode(d('327.68'))).toThrow(OverflowError);
+        expect(() => codec.encode(d('-327.69'))).toThrow('value does not fit in 2 bytes');
+        expect(() => codec.encode(d('0.001'))).toThrow('rounding necessary');
+        expect(() => codec.decode(new Uint8Array(3))).toThrow(DecodeError);
+        expect(() => codec.decode(new Uint8Array(3))).toThrow('expected 2 bytes');
+        expect(() => sortableCodec(2, 0)).toThrow(InvalidArgumentError);
+        expect(() => sortableCodec(2, 1.5)).toThrow('byteLength must be a positive integer');
+    });
+}
@@ -0,0 +1,299 @@
+import { RoundingNecessaryError, ScaleError, ScaledIntegerError, assertScale } from './errors.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+import { ScaledInteger, type ArithmeticContext } from './scaled-integer.js';
+
+// Conditions in the spirit of the General Decimal Arithmetic specification.
+// `rounded` is signalled whenever digits are discarded, `inexact` only when
+// any of them were non-zero
+export type Condition = 'overflow' | 'inexact' | 'rounded' | 'division-by-zero';
+
+export interface DecimalContextOptions {
+    // Maximum number of digits after the decimal point
+    scale?: number;
+    // Maximum number of significant digits
+    precision?: number;
+    rounding?: RoundingMode;
+    // Conditions that throw a `DecimalTrapError`. The others only set flags
+    traps?: Condition[];
+}
+
+export class DecimalTrapError extends ScaledIntegerError {
+    readonly condition: Condition;
+
+    constructor(condition: Condition, message: string) {
+        super(message);
+        this.condition = condition;
+    }
+}
+
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+const digitCount = (value: bigint): number => (value < 0n ? -value : value).toString().length;
+
+export class DecimalContext implements ArithmeticContext {
+    readonly scale: number | undefined;
+    readonly precision: number | undefined;
+    readonly rounding: RoundingMode;
+    readonly traps: ReadonlySet<Condition>;
+    private readonly _flags = new Set<Condition>();
+
+    constructor(options: DecimalContextOptions = {}) {
+        const { scale, precision, rounding = 'half-even', traps = ['overflow', 'division-by-zero'] } = options;
+        if (scale !== undefined) {
+            assertScale(scale);
+        }
+        if (precision !== undefined) {
+            assertScale(precision, 'precision');
+            if (precision < 1) throw new ScaleError('precision must be at least 1');
+        }
+        this.scale = scale;
+        this.precision = precision;
+        this.rounding = rounding;
+        this.traps = new Set(traps);
+    }
+
+    // Sticky flags set by every condition signalled since the last `clearFlags`
+    get flags(): ReadonlySet<Condition> {
+        return this._flags;
+    }
+
+    hasFlag(condition: Condition) {
+        return this._flags.has(condition);
+    }
+
+    clearFlags() {
+        this._flags.clear();
+        return this;
+    }
+
+    // Runs `fn` with this context applied to the non-mutating arithmetic
+    // methods of `ScaledInteger` (`plus`, `minus`, `times`, `dividedBy`).
+    // `fn` must be synchronous, see `ScaledInteger.runInContext`
+    run<T>(fn: () => T): T {
+        return ScaledInteger.runInContext(this, fn);
+    }
+
+    private _signal(condition: Condition, message: string) {
+        this._flags.add(condition);
+        if (this.traps.has(condition)) {
+            throw new DecimalTrapError(condition, message);
+        }
+    }
+
+    private _targetScale(value: bigint, scale: number): number {
+        let target = scale;
+        if (this.scale !== undefined && this.scale < target) {
+            target = this.scale;
+        }
+        if (this.precision !== undefined && value !== 0n) {
+            const exponent = digitCount(value) - 1 - scale;
+            target = Math.min(target, Math.max(0, this.precision - 1 - exponent));
+        }
+        return target;
+    }
+
+    // Applies the context limits to an exact result. `sticky` marks results
+    // that already had non-zero digits beyond `scale` truncated away
+    private _finish(value: bigint, scale: number, operation: string, sticky: boolean = false): ScaledInteger {
+        if (sticky) {
+            value = value * 10n + (value < 0n ? -1n : 1n);
+            scale += 1;
+        }
+        const target = this._targetScale(value, scale);
+        if (target < scale) {
+            const [rounded, inexact] = divideRounded(value, 10n ** BigInt(scale - target), this.rounding);
+            this._signal('rounded', `${operation} rounded`);
+            if (inexact) {
+                this._signal('inexact', `${operation} inexact`);
+            }
+            value = rounded;
+            scale = target;
+        }
+        if (value > MAX_SAFE || value < -MAX_SAFE) {
+            this._signal('overflow', `${operation} overflow`);
+            // Without a trap the result saturates, like IEEE 754 rounding
+            // toward zero does for values beyond the largest finite number
+            value = value < 0n ? -MAX_SAFE : MAX_SAFE;
+        }
+        return new ScaledInteger(Number(value), scale);
+    }
+
+    round(value: ScaledInteger): ScaledInteger {
+        return this._finish(BigInt(value.value), value.scale, 'rounding');
+    }
+
+    add(a: ScaledInteger, b: ScaledInteger): ScaledInteger {
+        const [[lhs, rhs], scale] = normalizedBigInts(a, b);
+        return this._finish(lhs + rhs, scale, 'addition');
+    }
+
+    subtract(a: ScaledInteger, b: ScaledInteger): ScaledInteger {
+        const [[lhs, rhs], scale] = normalizedBigInts(a, b);
+        return this._finish(lhs - rhs, scale, 'subtraction');
+    }
+
+    multiply(a: ScaledInteger, b: ScaledInteger): ScaledInteger {
+        return this._finish(BigInt(a.value) * BigInt(b.value), a.scale + b.scale, 'multiplication');
+    }
+
+    // Divides to the context scale, or to as many digits as the context
+    // precision allows
+    divide(a: ScaledInteger, b: ScaledInteger): ScaledInteger {
+        if (this.scale === undefined && this.precision === undefined) {
+            throw new ScaleError('division requires a context scale or precision');
+        }
+        if (b.isZero()) {
+            this._signal('division-by-zero', 'division by zero');
+            // Saturates the same way an untrapped overflow does
+            const sign = a.isNegative() ? -1 : a.isZero() ? 0 : 1;
+            return new ScaledInteger(sign * Number.MAX_SAFE_INTEGER, 0);
+        }
+        const n = BigInt(a.value);
+        const d = BigInt(b.value);
+        let scale = this.scale ?? 0;
+        if (this.precision !== undefined) {
+            // Enough digits for `precision` significant digits of the smallest
+            // possible quotient of operands this long
+            const needed = this.precision + digitCount(d) - b.scale - digitCount(n) + 1 + a.scale;
+            scale = Math.max(scale, needed);
+        }
+        // One guard digit beyond the target so that ties round correctly
+        scale += 1;
+        const exponent = b.scale + scale - a.scale;
+        let [q, inexact] =
+            exponent >= 0
+                ? divideRounded(n * 10n ** BigInt(exponent), d, 'toward-zero')
+                : divideRounded(n, d * 10n ** BigInt(-exponent), 'toward-zero');
+        // Exact quotients drop the padding zeros, as in 1 / 8 = 0.125
+        const idealScale = Math.max(0, a.scale - b.scale);
+        while (!inexact && scale > idealScale && q % 10n === 0n) {
+            q /= 10n;
+            scale -= 1;
+        }
+        return this._finish(q, scale, 'division', inexact);
+    }
+}
+
+const normalizedBigInts = (a: ScaledInteger, b: ScaledInteger): [[bigint, bigint], number] => {
+    const scale = Math.max(a.scale, b.scale);
+    return [[a.toBigInt(scale), b.toBigInt(scale)], scale];
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const d = ScaledInteger.parse;
+
+    it('rounds results to the context scale', () => {
+        const context = new DecimalContext({ scale: 4, rounding: 'half-even' });
+        expect(context.multiply(d('1.2345'), d('1.5')).toString()).toBe('1.8518');
+        expect(context.flags).toEqual(new Set(['rounded', 'inexact']));
+
+        context.clearFlags();
+        expect(context.multiply(d('1.2'), d('1.5')).toString()).toBe('1.80');
+        expect(context.add(d('0.00001'), d('0.00002')).toString()).toBe('0');
+        expect(context.flags).toEqual(new Set(['rounded', 'inexact']));
+
+        context.clearFlags();
+        expect(context.subtract(new ScaledInteger(100010, 5), d('0')).toJSON()).toEqual({ value: 10001, scale: 4 });
+        expect(context.flags).toEqual(new Set(['rounded']));
+    });
+
+    it('rounds results to the context precision', () => {
+        const context = new DecimalContext({ precision: 5 });
+        expect(context.add(d('123.456'), d('0.001')).toString()).toBe('123.46');
+        expect(context.multiply(d('12345'), d('100')).toString()).toBe('1234500');
+        expect(context.round(d('0.000123456789')).toString()).toBe('0.00012346');
+        expect(context.divide(d('1'), d('3')).toString()).toBe('0.33333');
+        expect(context.divide(d('2'), d('0.03')).toString()).toBe('66.667');
+        expect(context.divide(d('1'), d('8')).toString()).toBe('0.125');
+        expect(new DecimalContext({ precision: 1 }).divide(d('1'), d('3')).toString()).toBe('0.3');
+    });
+
+    it('divides to the context scale', () => {
+        const context = new DecimalContext({ scale: 2, rounding: 'half-up' });
+        expect(context.divide(d('2'), d('3')).toString()).toBe('0.67');
+        expect(context.divide(d('1'), d('8')).toString()).toBe('0.13');
+        expect(context.divide(d('-1'), d('8')).toString()).toBe('-0.13');
+        expect(new DecimalContext({ scale: 2, rounding: 'half-down' }).divide(d('1'), d('8')).toString()).toBe(
+            '0.12',
+        );
+        // The sticky digit keeps values just above a tie from rounding down
+        expect(
+            new DecimalContext({ scale: 2, rounding: 'half-down' }).divide(d('1.2500001'), d('10')).toString(),
+        ).toBe('0.13');
+        expect(() => new DecimalContext().divide(d('1'), d('3'))).toThrow();
+    });
+
+    it('traps or flags conditions', () => {
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER);
+        const trapping = new DecimalContext();
+        expect(() => trapping.add(max, d('1'))).toThrow(DecimalTrapError);
+        expect(() => trapping.add(max, d('1'))).toThrow('addition overflow');
+        expect(trapping.hasFlag('overflow')).toBe(true);
+
+        const flagging = new DecimalContext({ scale: 2, traps: [] });
+        expect(flagging.add(max, d('1')).value).toBe(Number.MAX_SAFE_INTEGER);
+        expect(flagging.divide(d('-1'), d('0')).value).toBe(-Number.MAX_SAFE_INTEGER);
+        expect(flagging.divide(d('0'), d('0')).value).toBe(0);
+        expect(flagging.flags).toEqual(new Set(['overflow', 'division-by-zero']));
+
+        const strict = new DecimalContext({ scale: 2, traps: ['inexact'] });
+        expect(strict.add(d('1.001'), d('0.009')).toString()).toBe('1.01');
+        expect(() => strict.divide(d('1'), d('3'))).toThrow('division inexact');
+        expect(() => strict.round(d('0.001'))).toThrow(new DecimalTrapError('inexact', 'rounding inexact'));
+    });
+
+    it('applies to ScaledInteger arithmetic', () => {
+        const context = new DecimalContext({ scale: 4, rounding: 'half-even' });
+        const a = d('1.2345');
+        const b = d('1.5');
+
+        expect(a.times(b).toString()).toBe('1.85175');
+        expect(a.times(b, context).toString()).toBe('1.8518');
+        expect(context.run(() => a.times(b).plus(d('0.00001')).toString())).toBe('1.8518');
+        expect(context.run(() => a.minus(d('0.00001')).toString())).toBe('1.2345');
+        expect(a.times(b).toString()).toBe('1.85175');
+
+        expect(() =>
+            context.run(() => {
+                throw Error('boom');
+            }),
+        ).toThrow('boom');
+        expect(a.times(b).toString()).toBe('1.85175');
+    });
+
+    it('applies to division without a scale', () => {
+        const context = new DecimalContext({ scale: 4, rounding: 'half-up' });
+        const one = d('1');
+        const three = d('3');
+
+        expect(one.dividedBy(three, undefined, undefined, context).toString()).toBe('0.3333');
+        expect(context.run(() => d('2').dividedBy(three).toString())).toBe('0.6667');
+        expect(context.run(() => d('2').dividedBy(three, 2, 'floor').toString())).toBe('0.66');
+        expect(() => one.dividedBy(three)).toThrow(RoundingNecessaryError);
+    });
+
+    it('only scopes synchronous functions', () => {
+        const context = new DecimalContext({ scale: 1 });
+        const a = d('1.25');
+
+        expect(() => context.run(async () => a.times(a))).toThrow('runInContext does not support async functions');
+        expect(a.times(a).toString()).toBe('1.5625');
+        expect(context.run(() => a.times(a).toString())).toBe('1.6');
+    });
+
+    it('evaluates expressions', () => {
+        const context = new DecimalContext({ scale: 4, rounding: 'half-up' });
+        expect(ScaledInteger.evaluate('2 / 3', {}, context).toString()).toBe('0.6667');
+        expect(ScaledInteger.evaluate('1 / 3 * 3', {}, context).toString()).toBe('0.9999');
+        expect(context.run(() => ScaledInteger.evaluate('1.00005 * 1 + 1 / 8').toString())).toBe('1.1251');
+        expect(() => ScaledInteger.evaluate('1 / 0', {}, context)).toThrow(DecimalTrapError);
+    });
+
+    it('validates options', () => {
+        expect(() => new DecimalContext({ scale: -1 })).toThrow(ScaleError);
+        expect(() => new DecimalContext({ precision: 0 })).toThrow(ScaleError);
+    });
+}
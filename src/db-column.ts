@@ -0,0 +1,290 @@
+import { BigScaledInteger, type AnyScaledInteger } from './big-scaled-integer.js';
+import { decimalStringCodec } from './codec.js';
+import { OverflowError, ParseError, ScaleError, assertScale } from './errors.js';
+import type { RoundingMode } from './rounding.js';
+import { ScaledInteger } from './scaled-integer.js';
+import { toSafeInteger } from './util.js';
+
+// Type OID of `numeric` in the Postgres catalog
+export const NUMERIC_OID = 1700;
+
+const INT64_MAX = 2n ** 63n - 1n;
+const INT64_MIN = -(2n ** 63n);
+
+// Postgres allows up to 1000 digits in a declared NUMERIC(p,s)
+const MAX_NUMERIC_PRECISION = 1000;
+
+const digitCount = (value: bigint): number => (value < 0n ? -value : value).toString().length;
+
+export interface ColumnOptions {
+    // Applied when writing values with more fraction digits than the column
+    // scale. By default such values are rejected
+    rounding?: RoundingMode;
+}
+
+export interface MinorUnitColumnOptions extends ColumnOptions {
+    // What `toDriver` returns. Drivers such as better-sqlite3 bind both, but
+    // only `bigint` reaches the full 64-bit range of an INTEGER column
+    integerType?: 'number' | 'bigint';
+}
+
+// Converts between decimals and the text form of a Postgres `NUMERIC(p,s)`
+// column. Values are rejected, never truncated, when they do not fit
+export class NumericColumn {
+    readonly precision: number;
+    readonly scale: number;
+    private readonly _rounding: RoundingMode;
+
+    constructor(precision: number, scale: number = 0, options: ColumnOptions = {}) {
+        assertScale(precision, 'precision');
+        assertScale(scale);
+        if (precision < 1 || precision > MAX_NUMERIC_PRECISION) {
+            throw new ScaleError(`precision must be between 1 and ${MAX_NUMERIC_PRECISION}`);
+        }
+        if (scale > precision) throw new ScaleError('scale must not exceed precision');
+        this.precision = precision;
+        this.scale = scale;
+        this._rounding = options.rounding ?? 'unnecessary';
+    }
+
+    private _fit(value: BigScaledInteger, rounding: RoundingMode): BigScaledInteger {
+        const fitted = value.withScale(this.scale, rounding);
+        if (digitCount(fitted.value) > this.precision) {
+            throw new OverflowError(
+                'numeric conversion',
+                [value],
+                `value does not fit NUMERIC(${this.precision},${this.scale})`,
+            );
+        }
+        return fitted;
+    }
+
+    toDriver(value: AnyScaledInteger | null): string | null {
+        if (value === null) {
+            return null;
+        }
+        return decimalStringCodec.encode(this._fit(BigScaledInteger.from(value), this._rounding));
+    }
+
+    fromDriver(raw: unknown): ScaledInteger | null {
+        return this.fromDriverBig(raw)?.toScaledInteger() ?? null;
+    }
+
+    fromDriverBig(raw: unknown): BigScaledInteger | null {
+        if (raw === null || raw === undefined) {
+            return null;
+        }
+        if (typeof raw !== 'string') {
+            throw new ParseError(String(raw), 0, 'expected NUMERIC text');
+        }
+        // `NaN` and `Infinity` fail here too, as nothing else can hold them
+        const result = BigScaledInteger.tryParse(raw);
+        if (!result.ok) {
+            throw result.error;
+        }
+        return this._fit(result.value, 'unnecessary');
+    }
+}
+
+// Maps a declared scale to integer columns holding minor units, e.g. cents
+// in a SQLite INTEGER for a scale of 2
+export class MinorUnitColumn {
+    readonly scale: number;
+    private readonly _rounding: RoundingMode;
+    private readonly _integerType: 'number' | 'bigint';
+
+    constructor(scale: number, options: MinorUnitColumnOptions = {}) {
+        assertScale(scale);
+        this.scale = scale;
+        this._rounding = options.rounding ?? 'unnecessary';
+        this._integerType = options.integerType ?? 'number';
+    }
+
+    toDriver(value: AnyScaledInteger | null): number | bigint | null {
+        if (value === null) {
+            return null;
+        }
+        const units = BigScaledInteger.from(value).toBigInt(this.scale, this._rounding);
+        if (units > INT64_MAX || units < INT64_MIN) {
+            throw new OverflowError('minor unit conversion', [value.clone()], 'value does not fit a 64-bit integer');
+        }
+        return this._integerType === 'bigint' ? units : toSafeInteger(units, 'minor unit conversion', [value.clone()]);
+    }
+
+    fromDriver(raw: unknown): ScaledInteger | null {
+        return this.fromDriverBig(raw)?.toScaledInteger() ?? null;
+    }
+
+    // Accepts numbers, bigints (better-sqlite3 with `safeIntegers`) and
+    // integer strings (node-postgres `int8`)
+    fromDriverBig(raw: unknown): BigScaledInteger | null {
+        if (raw === null || raw === undefined) {
+            return null;
+        }
+        let units: bigint;
+        if (typeof raw === 'bigint') {
+            units = raw;
+        } else if (typeof raw === 'number') {
+            if (!Number.isInteger(raw)) throw new ParseError(String(raw), 0, 'expected an integer');
+            if (!Number.isSafeInteger(raw)) {
+                throw new OverflowError('minor unit conversion', [raw], 'unsafe integer value');
+            }
+            units = BigInt(raw);
+        } else if (typeof raw === 'string' && /^-?[0-9]+$/.test(raw)) {
+            units = BigInt(raw);
+        } else {
+            throw new ParseError(String(raw), 0, 'expected an integer');
+        }
+        return new BigScaledInteger(units, this.scale);
+    }
+}
+
+// The part of node-postgres `types` (or `pg-types`) used to register parsers
+export interface TypeParserRegistry {
+    setTypeParser(oid: number, parser: (text: string) => unknown): void;
+}
+
+// Makes node-postgres return every NUMERIC as a decimal instead of a string.
+// Type parsers apply to all columns, so declared precisions are not checked
+// here; use a `NumericColumn` for that
+export const registerNumericTypeParser = (types: TypeParserRegistry, options: { big?: boolean } = {}): void => {
+    const parse = options.big ? BigScaledInteger.parse : (text: string) => ScaledInteger.parse(text);
+    types.setTypeParser(NUMERIC_OID, parse);
+};
+
+// The part of a better-sqlite3 `Database` used to register functions
+export interface SqliteFunctionRegistry {
+    function(
+        name: string,
+        options: { deterministic?: boolean; safeIntegers?: boolean },
+        fn: (...args: unknown[]) => unknown,
+    ): unknown;
+}
+
+// SQLite integers arrive as bigints with `safeIntegers`, as numbers otherwise
+const sqliteScale = (scale: unknown): number => {
+    if (typeof scale !== 'bigint' && typeof scale !== 'number') {
+        throw new ScaleError('scale must be an integer');
+    }
+    return Number(scale);
+};
+
+// Registers `decimal_from_minor(units, scale)`, which returns canonical
+// decimal text, and `decimal_to_minor(text, scale)`, which returns the
+// integer minor units and fails on values with more digits than `scale`
+export const registerSqliteFunctions = (db: SqliteFunctionRegistry): void => {
+    const options = { deterministic: true, safeIntegers: true };
+    db.function('decimal_from_minor', options, (units, scale) => {
+        if (units === null) {
+            return null;
+        }
+        return decimalStringCodec.encode(new MinorUnitColumn(sqliteScale(scale)).fromDriverBig(units)!);
+    });
+    db.function('decimal_to_minor', options, (text, scale) => {
+        if (text === null) {
+            return null;
+        }
+        if (typeof text !== 'string' && typeof text !== 'number' && typeof text !== 'bigint') {
+            throw new ParseError(String(text), 0, 'expected decimal text');
+        }
+        const column = new MinorUnitColumn(sqliteScale(scale), { integerType: 'bigint' });
+        return column.toDriver(BigScaledInteger.parse(String(text)));
+    });
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const d = ScaledInteger.parse;
+
+    it('writes NUMERIC text', () => {
+        const column = new NumericColumn(5, 2);
+        expect(column.toDriver(d('12.5'))).toBe('12.50');
+        expect(column.toDriver(d('-999.99'))).toBe('-999.99');
+        expect(column.toDriver(new BigScaledInteger(7n))).toBe('7.00');
+        expect(column.toDriver(null)).toBeNull();
+        expect(() => column.toDriver(d('1000'))).toThrow(OverflowError);
+        expect(() => column.toDriver(d('1000'))).toThrow('value does not fit NUMERIC(5,2)');
+        expect(() => column.toDriver(d('1.005'))).toThrow('rounding necessary');
+        expect(new NumericColumn(5, 2, { rounding: 'half-up' }).toDriver(d('1.005'))).toBe('1.01');
+        expect(() => new NumericColumn(5, 2, { rounding: 'half-up' }).toDriver(d('999.995'))).toThrow(OverflowError);
+    });
+
+    it('reads NUMERIC text', () => {
+        const column = new NumericColumn(30, 4);
+        expect(column.fromDriver('12.3400')?.toJSON()).toEqual({ value: 123400, scale: 4 });
+        expect(column.fromDriver(null)).toBeNull();
+        expect(column.fromDriverBig('12345678901234567890.1234')?.toString()).toBe('12345678901234567890.1234');
+        expect(() => column.fromDriver('12345678901234567890.1234')).toThrow(OverflowError);
+        expect(() => column.fromDriver('NaN')).toThrow(ParseError);
+        expect(() => column.fromDriver(12.5)).toThrow('expected NUMERIC text');
+        expect(() => new NumericColumn(3, 1).fromDriver('123.4')).toThrow(OverflowError);
+        expect(() => new NumericColumn(5, 1).fromDriver('1.25')).toThrow('rounding necessary');
+    });
+
+    it('validates NUMERIC declarations', () => {
+        expect(() => new NumericColumn(0)).toThrow(ScaleError);
+        expect(() => new NumericColumn(1001)).toThrow(ScaleError);
+        expect(() => new NumericColumn(2, 3)).toThrow('scale must not exceed precision');
+    });
+
+    it('maps minor units', () => {
+        const column = new MinorUnitColumn(2);
+        expect(column.toDriver(d('12.3'))).toBe(1230);
+        expect(column.toDriver(d('-0.01'))).toBe(-1);
+        expect(column.toDriver(null)).toBeNull();
+        expect(() => column.toDriver(d('0.001'))).toThrow('rounding necessary');
+        expect(new MinorUnitColumn(2, { rounding: 'floor' }).toDriver(d('0.019'))).toBe(1);
+
+        expect(column.fromDriver(1230)?.toString()).toBe('12.30');
+        expect(column.fromDriver(-5n)?.toString()).toBe('-0.05');
+        expect(column.fromDriver('199')?.toString()).toBe('1.99');
+        expect(column.fromDriver(null)).toBeNull();
+        expect(() => column.fromDriver(1.5)).toThrow('expected an integer');
+        expect(() => column.fromDriver('1.5')).toThrow(ParseError);
+        expect(() => column.fromDriver(2 ** 60)).toThrow(OverflowError);
+    });
+
+    it('maps 64-bit minor units', () => {
+        const column = new MinorUnitColumn(4, { integerType: 'bigint' });
+        const max = new BigScaledInteger(2n ** 63n - 1n, 4);
+        expect(column.toDriver(max)).toBe(2n ** 63n - 1n);
+        expect(column.fromDriverBig(2n ** 63n - 1n)?.toJSON()).toEqual(max.toJSON());
+        expect(() => column.toDriver(new BigScaledInteger(2n ** 63n, 4))).toThrow(
+            'value does not fit a 64-bit integer',
+        );
+        expect(() => new MinorUnitColumn(4).toDriver(max)).toThrow(OverflowError);
+    });
+
+    it('registers node-postgres type parsers', () => {
+        const parsers = new Map<number, (text: string) => unknown>();
+        const types: TypeParserRegistry = { setTypeParser: (oid, parser) => parsers.set(oid, parser) };
+
+        registerNumericTypeParser(types);
+        expect(parsers.get(NUMERIC_OID)!('12.50')).toBeInstanceOf(ScaledInteger);
+        expect((parsers.get(NUMERIC_OID)!('12.50') as ScaledInteger).toString()).toBe('12.5');
+
+        registerNumericTypeParser(types, { big: true });
+        expect(parsers.get(NUMERIC_OID)!('123456789012345678901234567890')).toBeInstanceOf(BigScaledInteger);
+        expect(() => parsers.get(NUMERIC_OID)!('NaN')).toThrow(ParseError);
+    });
+
+    it('registers better-sqlite3 functions', () => {
+        const functions = new Map<string, (...args: unknown[]) => unknown>();
+        const db: SqliteFunctionRegistry = {
+            function: (name, options, fn) => {
+                expect(options).toEqual({ deterministic: true, safeIntegers: true });
+                functions.set(name, fn);
+            },
+        };
+        registerSqliteFunctions(db);
+        expect(functions.get('decimal_from_minor')!(1230n, 2n)).toBe('12.30');
+        expect(functions.get('decimal_from_minor')!(null, 2n)).toBeNull();
+        expect(functions.get('decimal_to_minor')!('12.3', 2n)).toBe(1230n);
+        expect(() => functions.get('decimal_to_minor')!('12.345', 2n)).toThrow('rounding necessary');
+        expect(functions.get('decimal_to_minor')!(12, 2)).toBe(1200n);
+        expect(() => functions.get('decimal_to_minor')!(new Uint8Array(1), 2n)).toThrow(ParseError);
+        expect(() => functions.get('decimal_from_minor')!(1n, '2')).toThrow(ScaleError);
+    });
+}
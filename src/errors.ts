@@ -0,0 +1,122 @@
+export type Result<T, E> = { ok: true; value: T } | { ok: false; error: E };
+
+// Base class of every error raised by an arithmetic, parsing or scaling failure
+export class ScaledIntegerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class ParseError extends ScaledIntegerError {
+    readonly input: string;
+    // Index of the first character that could not be parsed. Equal to the
+    // input length when the input ended too early
+    readonly position: number;
+
+    constructor(input: string, position: number, message: string = 'invalid decimal string') {
+        super(message);
+        this.input = input;
+        this.position = position;
+    }
+}
+
+// Raised when binary input is malformed or not in canonical form
+export class DecodeError extends ScaledIntegerError {
+    // Offset of the first byte that could not be decoded
+    readonly position: number;
+
+    constructor(position: number, message: string) {
+        super(message);
+        this.position = position;
+    }
+}
+
+export class OverflowError extends ScaledIntegerError {
+    readonly operation: string;
+    readonly operands: readonly unknown[];
+
+    constructor(operation: string, operands: readonly unknown[], message: string = `${operation} overflow`) {
+        super(message);
+        this.operation = operation;
+        this.operands = operands;
+    }
+}
+
+export class ScaleError extends ScaledIntegerError {}
+
+export class DivisionByZeroError extends ScaledIntegerError {
+    constructor() {
+        super('division by zero');
+    }
+}
+
+// Raised by the `unnecessary` rounding mode when a result is inexact
+export class RoundingNecessaryError extends ScaledIntegerError {
+    constructor() {
+        super('rounding necessary');
+    }
+}
+
+// Raised when an argument is outside the domain of a function, e.g. an empty
+// list where at least one value is required
+export class InvalidArgumentError extends ScaledIntegerError {
+    // Name of the offending parameter
+    readonly argument: string;
+
+    constructor(argument: string, message: string) {
+        super(message);
+        this.argument = argument;
+    }
+}
+
+// Non-throwing counterpart of `assertScale`
+export const checkScale = (scale: number, name: string = 'scale'): ScaleError | undefined => {
+    if (!Number.isSafeInteger(scale)) return new ScaleError(`${name} must be a safe integer`);
+    if (scale < 0) return new ScaleError(`${name} must be a positive integer`);
+    return;
+};
+
+export const assertScale = (scale: number, name: string = 'scale') => {
+    const error = checkScale(scale, name);
+    if (error) throw error;
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('names errors after their class', () => {
+        const error = new ParseError('1x', 1);
+        expect(error).toBeInstanceOf(ScaledIntegerError);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('ParseError');
+        expect(error.message).toBe('invalid decimal string');
+        expect(new ScaleError('bad scale').name).toBe('ScaleError');
+        expect(new DivisionByZeroError().name).toBe('DivisionByZeroError');
+        expect(new InvalidArgumentError('count', 'count must be positive')).toMatchObject({
+            name: 'InvalidArgumentError',
+            argument: 'count',
+            message: 'count must be positive',
+        });
+    });
+
+    it('describes overflows', () => {
+        const error = new OverflowError('addition', [1, 2]);
+        expect(error.message).toBe('addition overflow');
+        expect(error.operands).toEqual([1, 2]);
+        expect(new OverflowError('conversion', [], 'unsafe integer value').message).toBe('unsafe integer value');
+    });
+
+    it('validates scales', () => {
+        expect(() => assertScale(0)).not.toThrow();
+        expect(() => assertScale(-1)).toThrow(ScaleError);
+        expect(() => assertScale(0.5)).toThrow('scale must be a safe integer');
+        expect(() => assertScale(-1, 'precision')).toThrow('precision must be a positive integer');
+        expect(checkScale(2)).toBeUndefined();
+        expect(checkScale(-1, 'precision')).toMatchObject({
+            name: 'ScaleError',
+            message: 'precision must be a positive integer',
+        });
+    });
+}
@@ -0,0 +1,102 @@
+import { trimEnd, trimStart } from './util.js';
+
+export const EXPONENTIAL_REGEX =
+    /^(?<sign>[-+]?)(?<major>[0-9]+)(\.(?<minor>[0-9]+))?([eE](?<exponent>[-+]?[0-9]+))?$/;
+
+// Splits a decimal string with an optional exponent into its sign, its digits
+// without the decimal point, and the scale of those digits. The scale is
+// negative when the exponent shifts the digits left of the units position
+export const matchExponential = (str: string): [string, string, number] | undefined => {
+    const groups = str.match(EXPONENTIAL_REGEX)?.groups;
+    if (!groups) {
+        return;
+    }
+    const minor = groups['minor'] ?? '';
+    const exponent = +(groups['exponent'] ?? '0');
+    if (!Number.isSafeInteger(exponent)) {
+        return;
+    }
+    const digits = trimStart(groups['major']! + minor, '0') || '0';
+    return [groups['sign']!, digits, minor.length - exponent];
+};
+
+// Drops the trailing zeros of `digits` that are right of the decimal point.
+// Works on the string, so a long run of zeros costs a single pass
+export const trimFractionZeros = (digits: string, scale: number): [string, number] => {
+    if (digits === '0') {
+        return ['0', 0];
+    }
+    const drop = Math.min(digits.length - trimEnd(digits, '0').length, Math.max(scale, 0));
+    return [digits.slice(0, digits.length - drop), scale - drop];
+};
+
+// Position of the leading digit relative to the units position
+export const decimalExponent = (digits: string, scale: number): number => {
+    return digits === '0' ? 0 : digits.length - 1 - scale;
+};
+
+// Formats `digits` (the unscaled absolute value) as `d.ddde±x`. With
+// `engineering` the exponent is a multiple of three and up to three digits
+// precede the decimal point. Digits are never rounded here, only padded with
+// zeros up to `fractionDigits`
+export const formatExponential = (
+    negative: boolean,
+    digits: string,
+    scale: number,
+    fractionDigits: number | undefined,
+    engineering: boolean = false,
+): string => {
+    const exponent = decimalExponent(digits, scale);
+    const shift = engineering ? exponent - Math.floor(exponent / 3) * 3 : 0;
+    const significant = trimEnd(digits, '0') || '0';
+    const integer = significant.slice(0, shift + 1).padEnd(shift + 1, '0');
+    let fraction = significant.slice(shift + 1);
+    if (fractionDigits !== undefined) {
+        fraction = fraction.padEnd(fractionDigits, '0');
+    }
+    const mantissa = fraction === '' ? integer : `${integer}.${fraction}`;
+    const e = exponent - shift;
+    return `${negative ? '-' : ''}${mantissa}e${e < 0 ? '-' : '+'}${Math.abs(e)}`;
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('matches exponent notation', () => {
+        expect(matchExponential('1.5e-7')).toEqual(['', '15', 8]);
+        expect(matchExponential('2E+3')).toEqual(['', '2', -3]);
+        expect(matchExponential('-0.0012e2')).toEqual(['-', '12', 2]);
+        expect(matchExponential('+12.5')).toEqual(['+', '125', 1]);
+        expect(matchExponential('0e10')).toEqual(['', '0', -10]);
+        expect(matchExponential('1e')).toBeUndefined();
+        expect(matchExponential('e5')).toBeUndefined();
+        expect(matchExponential('1.e5')).toBeUndefined();
+        expect(matchExponential('1e99999999999999999999')).toBeUndefined();
+    });
+
+    it('trims fraction zeros', () => {
+        expect(trimFractionZeros('1250', 2)).toEqual(['125', 1]);
+        expect(trimFractionZeros('1200', 1)).toEqual(['120', 0]);
+        expect(trimFractionZeros('1200', -3)).toEqual(['1200', -3]);
+        expect(trimFractionZeros('0', 9000000000000000)).toEqual(['0', 0]);
+        expect(trimFractionZeros('1' + '0'.repeat(20000), 20000)).toEqual(['1', 0]);
+    });
+
+    it('formats exponent notation', () => {
+        expect(formatExponential(false, '15', 8, undefined)).toBe('1.5e-7');
+        expect(formatExponential(false, '2', -3, undefined)).toBe('2e+3');
+        expect(formatExponential(true, '12345', 2, undefined)).toBe('-1.2345e+2');
+        expect(formatExponential(false, '12300', 2, 4)).toBe('1.2300e+2');
+        expect(formatExponential(false, '0', 0, 2)).toBe('0.00e+0');
+    });
+
+    it('formats engineering notation', () => {
+        expect(formatExponential(false, '12345', 0, undefined, true)).toBe('12.345e+3');
+        expect(formatExponential(false, '15', 8, undefined, true)).toBe('150e-9');
+        expect(formatExponential(false, '15', 8, 2, true)).toBe('150.00e-9');
+        expect(formatExponential(true, '1', 0, undefined, true)).toBe('-1e+0');
+        expect(formatExponential(false, '1234567', 3, undefined, true)).toBe('1.234567e+3');
+        expect(formatExponential(false, '1', 4, undefined, true)).toBe('100e-6');
+    });
+}
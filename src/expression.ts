@@ -0,0 +1,250 @@
+import { ParseError } from './errors.js';
+
+export type BinaryOperator = '+' | '-' | '*' | '/';
+
+export type ExpressionFunction = 'round' | 'min' | 'max' | 'abs';
+
+// `position` is the index in the source of the first character of the node,
+// or of the operator for binary expressions
+export type ExpressionNode =
+    | { type: 'number'; value: string; position: number }
+    | { type: 'variable'; name: string; position: number }
+    | { type: 'negate'; operand: ExpressionNode; position: number }
+    | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+    | { type: 'call'; name: ExpressionFunction; args: ExpressionNode[]; position: number };
+
+interface Token {
+    type: 'number' | 'identifier' | 'punctuation' | 'end';
+    text: string;
+    position: number;
+}
+
+// Minimum and maximum argument counts
+const FUNCTIONS: Record<ExpressionFunction, [number, number]> = {
+    round: [1, 2],
+    min: [1, Infinity],
+    max: [1, Infinity],
+    abs: [1, 1],
+};
+
+// Keeps hostile input such as thousands of opening parentheses from
+// exhausting the stack
+const MAX_DEPTH = 256;
+
+// Long operator chains nest as deeply as parentheses do, since `1 + 1 + 1`
+// is `(1 + 1) + 1`, so the token count is limited as well
+const MAX_TOKENS = 4096;
+
+const NUMBER_REGEX = /[0-9]+(\.[0-9]+)?/y;
+const IDENTIFIER_REGEX = /[A-Za-z_][A-Za-z0-9_]*/y;
+const WHITESPACE_REGEX = /\s/;
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i]!;
+        if (WHITESPACE_REGEX.test(char)) {
+            ++i;
+            continue;
+        }
+        if (tokens.length === MAX_TOKENS) {
+            throw new ParseError(source, i, 'expression is too long');
+        }
+        if ('+-*/(),'.includes(char)) {
+            tokens.push({ type: 'punctuation', text: char, position: i });
+            ++i;
+            continue;
+        }
+        let type: Token['type'] | undefined;
+        for (const [regex, candidate] of [
+            [NUMBER_REGEX, 'number'],
+            [IDENTIFIER_REGEX, 'identifier'],
+        ] as const) {
+            regex.lastIndex = i;
+            const match = regex.exec(source);
+            if (match) {
+                tokens.push({ type: candidate, text: match[0], position: i });
+                i += match[0].length;
+                type = candidate;
+                break;
+            }
+        }
+        if (type === undefined) {
+            throw new ParseError(source, i, `unexpected character '${char}'`);
+        }
+        // `1.` and `1.2.3` are not numbers, and `2x` is not an implicit product
+        if (type === 'number' && i < source.length && /[0-9A-Za-z_.]/.test(source[i]!)) {
+            throw new ParseError(source, i, `unexpected character '${source[i]}'`);
+        }
+    }
+    tokens.push({ type: 'end', text: '', position: source.length });
+    return tokens;
+};
+
+// Parses arithmetic over decimal literals, variables and the functions
+// `round(x[, scale])`, `min(...)`, `max(...)` and `abs(x)`. Multiplication
+// and division bind tighter than addition and subtraction, all of them
+// associate to the left, and unary minus binds tightest
+export const parseExpression = (source: string): ExpressionNode => {
+    const tokens = tokenize(source);
+    let index = 0;
+    let depth = 0;
+
+    const peek = () => tokens[index]!;
+    const next = () => tokens[index++]!;
+    const fail = (token: Token): never => {
+        const message = token.type === 'end' ? 'unexpected end of expression' : `unexpected '${token.text}'`;
+        throw new ParseError(source, token.position, message);
+    };
+    const expect = (text: string) => {
+        const token = next();
+        if (token.type !== 'punctuation' || token.text !== text) fail(token);
+    };
+    const isPunctuation = (token: Token, ...texts: string[]) =>
+        token.type === 'punctuation' && texts.includes(token.text);
+
+    const parseSum = (): ExpressionNode => {
+        if (++depth > MAX_DEPTH) {
+            throw new ParseError(source, peek().position, 'expression is too deeply nested');
+        }
+        let left = parseProduct();
+        while (isPunctuation(peek(), '+', '-')) {
+            const { text, position } = next();
+            left = { type: 'binary', operator: text as BinaryOperator, left, right: parseProduct(), position };
+        }
+        --depth;
+        return left;
+    };
+
+    const parseProduct = (): ExpressionNode => {
+        let left = parseUnary();
+        while (isPunctuation(peek(), '*', '/')) {
+            const { text, position } = next();
+            left = { type: 'binary', operator: text as BinaryOperator, left, right: parseUnary(), position };
+        }
+        return left;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isPunctuation(peek(), '-')) {
+            const { position } = next();
+            if (++depth > MAX_DEPTH) {
+                throw new ParseError(source, position, 'expression is too deeply nested');
+            }
+            const operand = parseUnary();
+            --depth;
+            return { type: 'negate', operand, position };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = next();
+        if (token.type === 'number') {
+            return { type: 'number', value: token.text, position: token.position };
+        }
+        if (token.type === 'identifier') {
+            if (!isPunctuation(peek(), '(')) {
+                return { type: 'variable', name: token.text, position: token.position };
+            }
+            if (!Object.hasOwn(FUNCTIONS, token.text)) {
+                throw new ParseError(source, token.position, `unknown function: ${token.text}`);
+            }
+            const name = token.text as ExpressionFunction;
+            next();
+            const args: ExpressionNode[] = [];
+            if (!isPunctuation(peek(), ')')) {
+                args.push(parseSum());
+                while (isPunctuation(peek(), ',')) {
+                    next();
+                    args.push(parseSum());
+                }
+            }
+            expect(')');
+            const [minimum, maximum] = FUNCTIONS[name];
+            if (args.length < minimum || args.length > maximum) {
+                throw new ParseError(source, token.position, `wrong number of arguments to ${name}`);
+            }
+            return { type: 'call', name, args, position: token.position };
+        }
+        if (isPunctuation(token, '(')) {
+            const inner = parseSum();
+            expect(')');
+            return inner;
+        }
+        return fail(token);
+    };
+
+    const root = parseSum();
+    if (peek().type !== 'end') {
+        fail(peek());
+    }
+    return root;
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    // Fully parenthesized form of the tree, to check precedence
+    const show = (node: ExpressionNode): string => {
+        switch (node.type) {
+            case 'number':
+                return node.value;
+            case 'variable':
+                return node.name;
+            case 'negate':
+                return `(-${show(node.operand)})`;
+            case 'binary':
+                return `(${show(node.left)} ${node.operator} ${show(node.right)})`;
+            case 'call':
+                return `${node.name}(${node.args.map(show).join(', ')})`;
+        }
+    };
+
+    const failure = (source: string) => {
+        try {
+            parseExpression(source);
+        } catch (error) {
+            expect(error).toBeInstanceOf(ParseError);
+            return error;
+        }
+        return;
+    };
+
+    it('parses with precedence', () => {
+        expect(show(parseExpression('(12.50 + 3.75) * 1.08 - 0.5'))).toBe('(((12.50 + 3.75) * 1.08) - 0.5)');
+        expect(show(parseExpression('1 - 2 - 3'))).toBe('((1 - 2) - 3)');
+        expect(show(parseExpression('8 / 4 / 2'))).toBe('((8 / 4) / 2)');
+        expect(show(parseExpression('-a * -(b + 1)'))).toBe('((-a) * (-(b + 1)))');
+        expect(show(parseExpression('--1'))).toBe('(-(-1))');
+        expect(show(parseExpression('round(price * 1.2, 2) + max(a, b, 0)'))).toBe(
+            '(round((price * 1.2), 2) + max(a, b, 0))',
+        );
+        expect(parseExpression(' x+1 ')).toMatchObject({ type: 'binary', position: 2, left: { position: 1 } });
+    });
+
+    it('reports syntax errors with positions', () => {
+        expect(failure('')).toMatchObject({ position: 0, message: 'unexpected end of expression' });
+        expect(failure('1 +')).toMatchObject({ position: 3, message: 'unexpected end of expression' });
+        expect(failure('1 + * 2')).toMatchObject({ position: 4, message: "unexpected '*'" });
+        expect(failure('(1 + 2')).toMatchObject({ position: 6 });
+        expect(failure('1 + 2)')).toMatchObject({ position: 5, message: "unexpected ')'" });
+        expect(failure('2 $ 3')).toMatchObject({ position: 2, message: "unexpected character '$'" });
+        expect(failure('1.')).toMatchObject({ position: 1 });
+        expect(failure('1.2.3')).toMatchObject({ position: 3 });
+        expect(failure('2x')).toMatchObject({ position: 1 });
+        expect(failure('1 2')).toMatchObject({ position: 2 });
+        expect(failure('sqrt(2)')).toMatchObject({ position: 0, message: 'unknown function: sqrt' });
+        expect(failure('abs(1, 2)')).toMatchObject({ message: 'wrong number of arguments to abs' });
+        expect(failure('min()')).toMatchObject({ message: 'wrong number of arguments to min' });
+        expect(failure('max(1,)')).toMatchObject({ position: 6 });
+        expect(failure('('.repeat(1000) + '1' + ')'.repeat(1000))).toMatchObject({
+            message: 'expression is too deeply nested',
+        });
+        expect(failure('-'.repeat(1000) + '1')).toMatchObject({ message: 'expression is too deeply nested' });
+        expect(failure('1+'.repeat(20000) + '1')).toMatchObject({ position: 4096, message: 'expression is too long' });
+        expect(parseExpression('1+'.repeat(2047) + '1')).toMatchObject({ type: 'binary', position: 4093 });
+    });
+}
@@ -0,0 +1,287 @@
+import { InvalidArgumentError, OverflowError } from './errors.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+import { ScaledInteger } from './scaled-integer.js';
+
+// Percentages and basis points may be given as numbers, which are converted
+// through their shortest decimal representation (`0.1` is exactly 0.1)
+export type Rate = number | ScaledInteger;
+
+export interface FinancialOptions {
+    // Scale of the result. Defaults to the scale of the amount
+    scale?: number;
+    rounding?: RoundingMode;
+}
+
+export interface CompoundInterestOptions extends FinancialOptions {
+    // Rounds the interest credited in every period, as a bank statement would,
+    // instead of rounding the exact total once
+    roundEachPeriod?: boolean;
+}
+
+export interface AmortizationRow {
+    period: number;
+    // Always `principal` plus `interest`
+    payment: ScaledInteger;
+    principal: ScaledInteger;
+    interest: ScaledInteger;
+    // Outstanding balance after this payment, zero after the last one
+    balance: ScaledInteger;
+}
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+// Largest number of digits `(1 + r)^periods` may need, as in `pow`. Checked
+// first, since the powers and per-period loops of huge counts never finish
+const MAX_DIGITS = 100_000;
+
+const toDecimal = (rate: Rate): ScaledInteger => (typeof rate === 'number' ? ScaledInteger.fromNumber(rate) : rate);
+
+// Returns `rate / per` as an exact fraction
+const fraction = (rate: Rate, per: bigint): [bigint, bigint] => {
+    const decimal = toDecimal(rate);
+    return [BigInt(decimal.value), pow10(decimal.scale) * per];
+};
+
+const assertPeriods = (periods: number, minimum: number) => {
+    if (!Number.isSafeInteger(periods) || periods < minimum) {
+        const message = minimum === 0 ? 'periods must not be negative' : 'periods must be a positive integer';
+        throw new InvalidArgumentError('periods', message);
+    }
+};
+
+// Rejects compounding the fraction `(d + n) / d` over too many periods
+const assertCompounding = (n: bigint, d: bigint, periods: number, operation: string) => {
+    const base = d + n;
+    const digits = Math.max((base < 0n ? -base : base).toString().length, d.toString().length);
+    if (digits * periods > MAX_DIGITS) {
+        throw new OverflowError(operation, [n, d, periods], 'too many periods');
+    }
+};
+
+// Rounds `amount * n / d` to the requested scale
+const scaleBy = (amount: ScaledInteger, n: bigint, d: bigint, options: FinancialOptions): ScaledInteger => {
+    const { scale = amount.scale, rounding = 'half-even' } = options;
+    const numerator = BigInt(amount.value) * n * pow10(scale);
+    const [value] = divideRounded(numerator, d * pow10(amount.scale), rounding);
+    return ScaledInteger.fromBigInt(value, scale);
+};
+
+// `percent` percent of `amount`, e.g. 7.5% of 200.00 is 15.00
+export const percentOf = (amount: ScaledInteger, percent: Rate, options: FinancialOptions = {}): ScaledInteger => {
+    const [n, d] = fraction(percent, 100n);
+    return scaleBy(amount, n, d, options);
+};
+
+// `amount` changed by `basisPoints` hundredths of a percent, so 25 basis
+// points turn 1000.00 into 1002.50 and -25 into 997.50
+export const applyBasisPoints = (
+    amount: ScaledInteger,
+    basisPoints: Rate,
+    options: FinancialOptions = {},
+): ScaledInteger => {
+    const [n, d] = fraction(basisPoints, 10000n);
+    return scaleBy(amount, d + n, d, options);
+};
+
+export const markup = (amount: ScaledInteger, percent: Rate, options: FinancialOptions = {}): ScaledInteger => {
+    const [n, d] = fraction(percent, 100n);
+    return scaleBy(amount, d + n, d, options);
+};
+
+export const discount = (amount: ScaledInteger, percent: Rate, options: FinancialOptions = {}): ScaledInteger => {
+    const [n, d] = fraction(percent, 100n);
+    return scaleBy(amount, d - n, d, options);
+};
+
+// Interest on `principal` at `ratePercent` per period, without compounding
+export const simpleInterest = (
+    principal: ScaledInteger,
+    ratePercent: Rate,
+    periods: number,
+    options: FinancialOptions = {},
+): ScaledInteger => {
+    assertPeriods(periods, 0);
+    const [n, d] = fraction(ratePercent, 100n);
+    return scaleBy(principal, n * BigInt(periods), d, options);
+};
+
+// Interest earned on `principal` at `ratePercent` per period, compounded
+// every period
+export const compoundInterest = (
+    principal: ScaledInteger,
+    ratePercent: Rate,
+    periods: number,
+    options: CompoundInterestOptions = {},
+): ScaledInteger => {
+    assertPeriods(periods, 0);
+    const [n, d] = fraction(ratePercent, 100n);
+    assertCompounding(n, d, periods, 'compound interest');
+    if (!options.roundEachPeriod) {
+        // P * ((1 + r)^n - 1)
+        const k = BigInt(periods);
+        return scaleBy(principal, (d + n) ** k - d ** k, d ** k, options);
+    }
+    const { scale = principal.scale, rounding = 'half-even' } = options;
+    let balance = principal.withScale(scale, rounding);
+    let total = new ScaledInteger(0, scale);
+    for (let i = 0; i < periods; ++i) {
+        const interest = scaleBy(balance, n, d, { scale, rounding });
+        balance = balance.plus(interest);
+        total = total.plus(interest);
+    }
+    return total;
+};
+
+// Value of `present` after `periods` periods at `ratePercent` per period
+export const futureValue = (
+    present: ScaledInteger,
+    ratePercent: Rate,
+    periods: number,
+    options: FinancialOptions = {},
+): ScaledInteger => {
+    assertPeriods(periods, 0);
+    const [n, d] = fraction(ratePercent, 100n);
+    assertCompounding(n, d, periods, 'future value');
+    const k = BigInt(periods);
+    return scaleBy(present, (d + n) ** k, d ** k, options);
+};
+
+// Amount that grows to `future` after `periods` periods at `ratePercent`
+// per period
+export const presentValue = (
+    future: ScaledInteger,
+    ratePercent: Rate,
+    periods: number,
+    options: FinancialOptions = {},
+): ScaledInteger => {
+    assertPeriods(periods, 0);
+    const [n, d] = fraction(ratePercent, 100n);
+    assertCompounding(n, d, periods, 'present value');
+    const k = BigInt(periods);
+    return scaleBy(future, d ** k, (d + n) ** k, options);
+};
+
+// Repays `principal` in `periods` equal payments at `ratePercent` per period.
+// Interest is rounded every period and the last payment absorbs the
+// rounding, so the principal column sums exactly to `principal` (itself
+// rounded first when `scale` has fewer digits)
+export const amortizationSchedule = (
+    principal: ScaledInteger,
+    ratePercent: Rate,
+    periods: number,
+    options: FinancialOptions = {},
+): AmortizationRow[] => {
+    assertPeriods(periods, 1);
+    const { scale = principal.scale, rounding = 'half-even' } = options;
+    const [n, d] = fraction(ratePercent, 100n);
+    assertCompounding(n, d, periods, 'amortization');
+    let balance = principal.toBigInt(scale, rounding);
+
+    // P * r / (1 - (1 + r)^-n) == P * n * (d + n)^k / (d * ((d + n)^k - d^k))
+    const k = BigInt(periods);
+    const [payment] =
+        n === 0n
+            ? divideRounded(balance, k, rounding)
+            : divideRounded(balance * n * (d + n) ** k, d * ((d + n) ** k - d ** k), rounding);
+
+    const rows: AmortizationRow[] = [];
+    for (let period = 1; period <= periods; ++period) {
+        const [interest] = divideRounded(balance * n, d, rounding);
+        const repaid = period === periods ? balance : payment - interest;
+        balance -= repaid;
+        rows.push({
+            period,
+            payment: ScaledInteger.fromBigInt(repaid + interest, scale),
+            principal: ScaledInteger.fromBigInt(repaid, scale),
+            interest: ScaledInteger.fromBigInt(interest, scale),
+            balance: ScaledInteger.fromBigInt(balance, scale),
+        });
+    }
+    return rows;
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    // Amounts at cent scale, as the strict parser drops trailing zeros
+    const d = (str: string) => ScaledInteger.parse(str).withScale(2);
+
+    it('takes percentages and basis points', () => {
+        expect(percentOf(d('200.00'), 7.5).toString()).toBe('15');
+        expect(percentOf(d('19.99'), d('8.25')).toString()).toBe('1.65');
+        expect(percentOf(d('19.99'), 8.25, { rounding: 'floor' }).toString()).toBe('1.64');
+        expect(percentOf(d('19.99'), 8.25, { scale: 4 }).toString()).toBe('1.6492');
+        expect(percentOf(d('0.05'), 50, { rounding: 'half-even' }).toJSON()).toEqual({ value: 2, scale: 2 });
+        expect(percentOf(d('0.05'), 50, { rounding: 'half-up' }).toJSON()).toEqual({ value: 3, scale: 2 });
+        expect(applyBasisPoints(d('1000.00'), 25).toString()).toBe('1002.50');
+        expect(applyBasisPoints(d('1000.00'), -25).toString()).toBe('997.50');
+        expect(applyBasisPoints(d('1000.00'), 0.5, { scale: 3 }).toString()).toBe('1000.050');
+    });
+
+    it('applies markups and discounts', () => {
+        expect(markup(d('80.00'), 25).toString()).toBe('100');
+        expect(markup(d('9.99'), 12.5).toString()).toBe('11.24');
+        expect(discount(d('100.00'), 15).toString()).toBe('85');
+        expect(discount(d('9.99'), 33, { rounding: 'floor' }).toString()).toBe('6.69');
+    });
+
+    it('computes interest', () => {
+        expect(simpleInterest(d('1000.00'), 5, 3).toString()).toBe('150');
+        expect(simpleInterest(d('1234.56'), 0.5, 7).toString()).toBe('43.21');
+        expect(compoundInterest(d('1000.00'), 5, 3).toString()).toBe('157.62');
+        expect(compoundInterest(d('1000.00'), 5, 0).toString()).toBe('0');
+        // 0.56 + 0.56 + 0.57 against an exact total of 1.683...
+        expect(compoundInterest(d('55.55'), 1, 3, { roundEachPeriod: true }).toString()).toBe('1.69');
+        expect(compoundInterest(d('55.55'), 1, 3).toString()).toBe('1.68');
+        expect(() => simpleInterest(d('1'), 1, -1)).toThrow('periods must not be negative');
+        expect(() => simpleInterest(d('1'), 1, 1.5)).toThrow(InvalidArgumentError);
+    });
+
+    it('bounds the number of periods', () => {
+        const { MAX_SAFE_INTEGER } = Number;
+        expect(() => futureValue(d('1'), 5, MAX_SAFE_INTEGER)).toThrow(OverflowError);
+        expect(() => presentValue(d('1'), 5, MAX_SAFE_INTEGER)).toThrow('too many periods');
+        expect(() => compoundInterest(d('1'), 5, MAX_SAFE_INTEGER)).toThrow(OverflowError);
+        expect(() => compoundInterest(d('1'), 5, MAX_SAFE_INTEGER, { roundEachPeriod: true })).toThrow(OverflowError);
+        expect(() => amortizationSchedule(d('1'), 0, MAX_SAFE_INTEGER)).toThrow(OverflowError);
+        // Thirty years of daily compounding is well within the bound
+        expect(futureValue(d('1000.00'), 0.0123, 10950).toString()).toBe('3844.98');
+    });
+
+    it('computes present and future values', () => {
+        expect(futureValue(d('1000.00'), 5, 10).toString()).toBe('1628.89');
+        expect(presentValue(d('1628.89'), 5, 10).toString()).toBe('1000');
+        expect(presentValue(d('100'), 3, 5, { scale: 4 }).toString()).toBe('86.2609');
+        expect(futureValue(d('100'), 0, 5).toString()).toBe('100');
+    });
+
+    it('builds amortization schedules that sum exactly', () => {
+        const principal = d('10000.00');
+        const rows = amortizationSchedule(principal, d('0.5'), 12);
+        expect(rows).toHaveLength(12);
+        expect(rows[0]!.payment.toString()).toBe('860.66');
+        expect(rows[0]!.interest.toString()).toBe('50');
+        expect(rows[0]!.principal.toString()).toBe('810.66');
+        expect(rows[0]!.balance.toString()).toBe('9189.34');
+        expect(rows[11]!.balance.isZero()).toBe(true);
+
+        const sum = (values: ScaledInteger[]) => values.reduce((a, b) => a.plus(b), new ScaledInteger(0, 2));
+        expect(ScaledInteger.equal(sum(rows.map(row => row.principal)), principal)).toBe(true);
+        for (const row of rows) {
+            expect(ScaledInteger.equal(row.principal.plus(row.interest), row.payment)).toBe(true);
+        }
+        expect(sum(rows.map(row => row.payment)).toString()).toBe(
+            sum(rows.map(row => row.principal.plus(row.interest))).toString(),
+        );
+
+        const interestFree = amortizationSchedule(d('100.00'), 0, 3);
+        expect(interestFree.map(row => row.payment.toString())).toEqual(['33.33', '33.33', '33.34']);
+        expect(() => amortizationSchedule(d('100.00'), 1, 0)).toThrow('periods must be a positive integer');
+
+        const whole = amortizationSchedule(d('100.50'), 0, 2, { scale: 0 });
+        expect(whole.map(row => row.payment.toString())).toEqual(['50', '50']);
+        const ceiling = amortizationSchedule(d('100.50'), 0, 2, { scale: 0, rounding: 'ceiling' });
+        expect(ceiling.map(row => row.payment.toString())).toEqual(['51', '50']);
+    });
+}
@@ -0,0 +1,210 @@
+import { ParseError, ScaleError, assertScale } from './errors.js';
+import type { FormatOptions } from './format.js';
+import type { RoundingMode } from './rounding.js';
+import { ScaledInteger, type ArithmeticContext } from './scaled-integer.js';
+
+type Tuple<N extends number, T extends unknown[] = []> = T['length'] extends N ? T : Tuple<N, [...T, unknown]>;
+
+// Sum of two scales at the type level, or `number` when either is not a literal
+export type AddScales<A extends number, B extends number> = number extends A | B
+    ? number
+    : [...Tuple<A>, ...Tuple<B>]['length'] extends infer S extends number
+    ? S
+    : number;
+
+// An immutable decimal whose scale is part of its type, so a `Fixed<2>`
+// price cannot be added to a `Fixed<8>` rate without an explicit `rescale`.
+// Arithmetic ignores `ScaledInteger.runInContext`, as a context could change
+// the scale behind the type's back
+export class Fixed<S extends number> {
+    readonly scale: S;
+    private readonly _decimal: ScaledInteger;
+
+    private constructor(decimal: ScaledInteger, scale: S) {
+        this.scale = scale;
+        this._decimal = decimal.freeze();
+        Object.freeze(this);
+    }
+
+    // Values with more fraction digits than `scale` are only accepted when a
+    // rounding mode is given
+    static from<S extends number>(value: ScaledInteger, scale: S, rounding: RoundingMode = 'unnecessary'): Fixed<S> {
+        assertScale(scale);
+        return new Fixed(value.withScale(scale, rounding), scale);
+    }
+
+    static compare<S extends number>(a: Fixed<S>, b: Fixed<S>): -1 | 0 | 1 {
+        a._assertSameScale(b);
+        return ScaledInteger.compare(a._decimal, b._decimal);
+    }
+
+    static equal<S extends number>(a: Fixed<S>, b: Fixed<S>): boolean {
+        a._assertSameScale(b);
+        return ScaledInteger.equal(a._decimal, b._decimal);
+    }
+
+    // Unscaled integer value, e.g. cents for `Fixed<2>`
+    get value() {
+        return this._decimal.value;
+    }
+
+    isZero() {
+        return this._decimal.isZero();
+    }
+
+    isPositive() {
+        return this._decimal.isPositive();
+    }
+
+    isNegative() {
+        return this._decimal.isNegative();
+    }
+
+    // Guards callers that widened the type to `Fixed<number>` or left it
+    private _assertSameScale(other: Fixed<number>) {
+        if (other.scale !== this.scale) {
+            throw new ScaleError(`scale mismatch: expected ${this.scale}, got ${other.scale}`);
+        }
+    }
+
+    plus(other: Fixed<S>): Fixed<S> {
+        this._assertSameScale(other);
+        return new Fixed(this._decimal.clone().add(other._decimal), this.scale);
+    }
+
+    minus(other: Fixed<S>): Fixed<S> {
+        this._assertSameScale(other);
+        return new Fixed(this._decimal.clone().subtract(other._decimal), this.scale);
+    }
+
+    negated(): Fixed<S> {
+        return new Fixed(new ScaledInteger(0, this.scale).subtract(this._decimal), this.scale);
+    }
+
+    // Exact, so the result scale is the sum of both scales
+    times<T extends number>(other: Fixed<T>): Fixed<AddScales<S, T>> {
+        const scale = (this.scale + other.scale) as AddScales<S, T>;
+        return new Fixed(this._decimal.clone().multiply(other._decimal), scale);
+    }
+
+    dividedBy<T extends number, R extends number>(
+        other: Fixed<T>,
+        scale: R,
+        rounding: RoundingMode = 'half-even',
+    ): Fixed<R> {
+        assertScale(scale);
+        return new Fixed(ScaledInteger.divide(this._decimal, other._decimal, scale, rounding), scale);
+    }
+
+    // The only way to change the scale of a value
+    rescale<T extends number>(scale: T, rounding: RoundingMode = 'half-even'): Fixed<T> {
+        return Fixed.from(this._decimal, scale, rounding);
+    }
+
+    toScaledInteger(): ScaledInteger {
+        return this._decimal.clone();
+    }
+
+    format(options: FormatOptions = {}): string {
+        return this._decimal.format({ minimumFractionDigits: this.scale, ...options });
+    }
+
+    toString(): string {
+        return this.format();
+    }
+
+    toJSON(): any {
+        return this._decimal.toJSON();
+    }
+}
+
+export interface FixedScale<S extends number> {
+    readonly scale: S;
+    parse(str: string, rounding?: RoundingMode): Fixed<S>;
+    from(value: ScaledInteger, rounding?: RoundingMode): Fixed<S>;
+    // `units` is the unscaled value, e.g. cents for a scale of 2
+    fromUnits(units: number): Fixed<S>;
+    zero(): Fixed<S>;
+}
+
+// Constructors for values of one scale, as in `fixed(2).parse('1.23')`
+export const fixed = <S extends number>(scale: S): FixedScale<S> => {
+    assertScale(scale);
+    return Object.freeze({
+        scale,
+        parse: (str: string, rounding?: RoundingMode) => Fixed.from(ScaledInteger.parse(str), scale, rounding),
+        from: (value: ScaledInteger, rounding?: RoundingMode) => Fixed.from(value, scale, rounding),
+        fromUnits: (units: number) => Fixed.from(new ScaledInteger(units, scale), scale),
+        zero: () => Fixed.from(new ScaledInteger(0, scale), scale),
+    });
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const price = fixed(2);
+    const rate = fixed(8);
+
+    it('fixes the scale', () => {
+        const a = price.parse('1.2');
+        expect(a.scale).toBe(2);
+        expect(a.value).toBe(120);
+        expect(a.toString()).toBe('1.20');
+        expect(price.fromUnits(1999).toString()).toBe('19.99');
+        expect(price.zero().toJSON()).toEqual({ value: 0, scale: 2 });
+        expect(() => price.parse('1.234')).toThrow('rounding necessary');
+        expect(price.parse('1.235', 'half-up').toString()).toBe('1.24');
+        expect(price.from(ScaledInteger.parse('3')).toString()).toBe('3.00');
+        expect(() => fixed(-1)).toThrow('scale must be a positive integer');
+        expect(() => price.parse('')).toThrow(ParseError);
+        expect(() => price.parse('-.')).toThrow(ParseError);
+        expect(() => price.parse('.5')).toThrow(ParseError);
+    });
+
+    it('keeps the scale through arithmetic', () => {
+        const a = price.parse('10.00');
+        const b = price.parse('0.25');
+        const sum: Fixed<2> = a.plus(b);
+        expect(sum.toString()).toBe('10.25');
+        expect(a.minus(b).negated().toString()).toBe('-9.75');
+        expect(Object.is(price.zero().negated().value, 0)).toBe(true);
+        expect(price.zero().negated().toString()).toBe('0.00');
+
+        const product: Fixed<10> = a.times(rate.parse('0.0825'));
+        expect(product.scale).toBe(10);
+        expect(product.toString()).toBe('0.8250000000');
+        expect(product.rescale(2).toString()).toBe('0.82');
+
+        const quotient: Fixed<4> = a.dividedBy(fixed(0).parse('3'), 4);
+        expect(quotient.toString()).toBe('3.3333');
+
+        expect(Fixed.compare(a, b)).toBe(+1);
+        expect(Fixed.equal(a, price.parse('10'))).toBe(true);
+    });
+
+    it('ignores arithmetic contexts', () => {
+        const context = { add: () => new ScaledInteger(0, 5) } as unknown as ArithmeticContext;
+        const sum = ScaledInteger.runInContext(context, () => price.parse('1').plus(price.parse('2')));
+        expect(sum.toJSON()).toEqual({ value: 300, scale: 2 });
+    });
+
+    it('rejects mixed scales at compile time', () => {
+        const a = price.parse('1.00');
+        const b = rate.parse('0.5');
+        // @ts-expect-error a rate is not a price
+        expect(() => a.plus(b)).toThrow(ScaleError);
+        // @ts-expect-error the product has scale 10
+        const product: Fixed<2> = a.times(b);
+        expect(product.scale).toBe(10);
+        // @ts-expect-error rescale must target the declared scale
+        const rescaled: Fixed<2> = b.rescale(4);
+        expect(rescaled.scale).toBe(4);
+        // Widened types are still checked when the values meet
+        const widened: Fixed<number> = a;
+        expect(() => widened.plus(b)).toThrow('scale mismatch: expected 2, got 8');
+        expect(() => Fixed.compare(widened, b)).toThrow(ScaleError);
+        expect(() => Fixed.equal(widened, b)).toThrow(ScaleError);
+        expect(() => Fixed.equal(widened, rate.parse('1'))).toThrow('scale mismatch: expected 2, got 8');
+    });
+}
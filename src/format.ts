@@ -0,0 +1,183 @@
+import type { RoundingMode } from './rounding.js';
+
+export type SignDisplay = 'auto' | 'always' | 'exceptZero' | 'never';
+
+export interface FormatOptions {
+    decimalSeparator?: string;
+    groupSeparator?: string;
+    groupSize?: number;
+    // Size of every group after the first, for locales like `en-IN` that group
+    // as 12,34,567. Defaults to `groupSize`
+    secondaryGroupSize?: number;
+    minimumFractionDigits?: number;
+    // Values with a larger scale are rounded first. Defaults to the scale of
+    // the value, so nothing is rounded
+    maximumFractionDigits?: number;
+    rounding?: RoundingMode;
+    signDisplay?: SignDisplay;
+    // Wraps negative values in parentheses instead of using a minus sign
+    accounting?: boolean;
+    minusSign?: string;
+    plusSign?: string;
+}
+
+// Anything that can be split into exact integer and fraction digits
+export interface FormattableDecimal {
+    readonly scale: number;
+    toUnits(): [number | bigint, number | bigint];
+    isNegative(): boolean;
+    isZero(): boolean;
+}
+
+const groupDigits = (digits: string, separator: string, size: number, secondarySize: number): string => {
+    if (separator === '' || size <= 0 || digits.length <= size) {
+        return digits;
+    }
+    const groups: string[] = [digits.slice(-size)];
+    let end = digits.length - size;
+    const step = secondarySize > 0 ? secondarySize : size;
+    while (end > 0) {
+        groups.unshift(digits.slice(Math.max(0, end - step), end));
+        end -= step;
+    }
+    return groups.join(separator);
+};
+
+// Formats an already rounded value. Trailing zeros in the fraction are dropped
+// down to `minimumFractionDigits`, or padded up to it
+export const formatDecimal = (value: FormattableDecimal, options: FormatOptions = {}): string => {
+    const {
+        decimalSeparator = '.',
+        groupSeparator = '',
+        groupSize = 3,
+        secondaryGroupSize = groupSize,
+        minimumFractionDigits = 0,
+        signDisplay = 'auto',
+        accounting = false,
+        minusSign = '-',
+        plusSign = '+',
+    } = options;
+
+    const { scale } = value;
+    const [major, minor] = value.toUnits();
+    const integer = groupDigits(
+        (major < 0 ? -major : major).toString(),
+        groupSeparator,
+        groupSize,
+        secondaryGroupSize,
+    );
+
+    let fraction = scale > 0 ? minor.toString().padStart(scale, '0') : '';
+    let end = fraction.length;
+    while (end > minimumFractionDigits && fraction[end - 1] === '0') {
+        --end;
+    }
+    fraction = fraction.slice(0, end).padEnd(minimumFractionDigits, '0');
+
+    const unsigned = fraction === '' ? integer : `${integer}${decimalSeparator}${fraction}`;
+
+    if (value.isNegative()) {
+        if (signDisplay === 'never') {
+            return unsigned;
+        }
+        return accounting ? `(${unsigned})` : `${minusSign}${unsigned}`;
+    }
+    if (signDisplay === 'always' || (signDisplay === 'exceptZero' && !value.isZero())) {
+        return `${plusSign}${unsigned}`;
+    }
+    return unsigned;
+};
+
+// Reads the separators and grouping sizes of a locale from `Intl.NumberFormat`.
+// Only separators are taken from the locale, the digits are always ASCII
+export const localeFormatOptions = (
+    locales?: string | string[],
+    options: FormatOptions = {},
+): FormatOptions => {
+    const parts = new Intl.NumberFormat(locales, { useGrouping: true }).formatToParts(-1234567.5);
+    const integers = parts.filter(part => part.type === 'integer').map(part => part.value);
+    const preset: FormatOptions = {};
+
+    for (const part of parts) {
+        if (part.type === 'decimal') {
+            preset.decimalSeparator = part.value;
+        } else if (part.type === 'group') {
+            preset.groupSeparator = part.value;
+        } else if (part.type === 'minusSign') {
+            preset.minusSign = part.value;
+        }
+    }
+
+    if (integers.length > 1) {
+        preset.groupSize = integers[integers.length - 1]!.length;
+        if (integers.length > 2) {
+            preset.secondaryGroupSize = integers[integers.length - 2]!.length;
+        }
+    }
+
+    const plus = new Intl.NumberFormat(locales, { signDisplay: 'always' })
+        .formatToParts(1)
+        .find(part => part.type === 'plusSign');
+    if (plus) {
+        preset.plusSign = plus.value;
+    }
+
+    return { ...preset, ...options };
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const decimal = (units: [number, number], scale: number, negative = false): FormattableDecimal => ({
+        scale,
+        toUnits: () => units,
+        isNegative: () => negative,
+        isZero: () => !negative && units[0] === 0 && units[1] === 0,
+    });
+
+    it('groups integer digits', () => {
+        expect(groupDigits('1', ',', 3, 3)).toBe('1');
+        expect(groupDigits('123', ',', 3, 3)).toBe('123');
+        expect(groupDigits('1234', ',', 3, 3)).toBe('1,234');
+        expect(groupDigits('1234567', ',', 3, 3)).toBe('1,234,567');
+        expect(groupDigits('1234567', ',', 3, 2)).toBe('12,34,567');
+        expect(groupDigits('1234567', '', 3, 3)).toBe('1234567');
+    });
+
+    it('formats fraction digits', () => {
+        expect(formatDecimal(decimal([12, 3400], 4))).toBe('12.34');
+        expect(formatDecimal(decimal([12, 3400], 4), { minimumFractionDigits: 3 })).toBe('12.340');
+        expect(formatDecimal(decimal([12, 3400], 4), { minimumFractionDigits: 6 })).toBe('12.340000');
+        expect(formatDecimal(decimal([12, 0], 0), { minimumFractionDigits: 2 })).toBe('12.00');
+        expect(formatDecimal(decimal([0, 5], 3), { decimalSeparator: ',' })).toBe('0,005');
+    });
+
+    it('formats signs', () => {
+        const negative = decimal([-1234, 5], 1, true);
+        const positive = decimal([1234, 5], 1);
+        const zero = decimal([0, 0], 0);
+
+        expect(formatDecimal(negative, { groupSeparator: ',' })).toBe('-1,234.5');
+        expect(formatDecimal(negative, { accounting: true })).toBe('(1234.5)');
+        expect(formatDecimal(negative, { signDisplay: 'never' })).toBe('1234.5');
+        expect(formatDecimal(negative, { minusSign: '−' })).toBe('−1234.5');
+        expect(formatDecimal(positive, { signDisplay: 'always' })).toBe('+1234.5');
+        expect(formatDecimal(positive, { signDisplay: 'exceptZero' })).toBe('+1234.5');
+        expect(formatDecimal(zero, { signDisplay: 'always' })).toBe('+0');
+        expect(formatDecimal(zero, { signDisplay: 'exceptZero' })).toBe('0');
+    });
+
+    it('reads locale presets', () => {
+        expect(localeFormatOptions('en-US')).toMatchObject({
+            decimalSeparator: '.',
+            groupSeparator: ',',
+            groupSize: 3,
+            secondaryGroupSize: 3,
+            minusSign: '-',
+        });
+        expect(localeFormatOptions('de-DE')).toMatchObject({ decimalSeparator: ',', groupSeparator: '.' });
+        expect(localeFormatOptions('en-IN')).toMatchObject({ groupSize: 3, secondaryGroupSize: 2 });
+        expect(localeFormatOptions('de-DE', { groupSeparator: '' })).toMatchObject({ groupSeparator: '' });
+    });
+}
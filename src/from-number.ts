@@ -0,0 +1,123 @@
+import { InvalidArgumentError, assertScale } from './errors.js';
+import { matchExponential } from './exponential.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+
+export interface FromNumberOptions {
+    // `shortest` takes the shortest decimal that converts back to the same
+    // number, as `String(x)` does. `exact` expands the binary value in full,
+    // so `0.1` becomes 0.1000000000000000055511151231257827021181583404541015625
+    mode?: 'shortest' | 'exact';
+    // Rounds the result to this scale when it has more digits
+    scale?: number;
+    rounding?: RoundingMode;
+}
+
+// Returns the exact value of a finite double as unscaled digits and a scale
+const expandNumber = (x: number): [bigint, number] => {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, x);
+    const bits = view.getBigUint64(0);
+    const negative = bits >> 63n === 1n;
+    const biased = Number((bits >> 52n) & 0x7ffn);
+    const fraction = bits & 0xfffffffffffffn;
+    // Subnormals have no implicit leading bit and the minimum exponent
+    const mantissa = biased === 0 ? fraction : fraction | (1n << 52n);
+    let exponent = (biased === 0 ? 1 : biased) - 1075;
+
+    let significand = mantissa;
+    while (exponent < 0 && significand !== 0n && (significand & 1n) === 0n) {
+        significand >>= 1n;
+        exponent += 1;
+    }
+
+    let value: bigint;
+    let scale: number;
+    if (exponent >= 0 || significand === 0n) {
+        value = significand << BigInt(Math.max(exponent, 0));
+        scale = 0;
+    } else {
+        // m / 2^k == m * 5^k / 10^k
+        value = significand * 5n ** BigInt(-exponent);
+        scale = -exponent;
+    }
+    return [negative ? -value : value, scale];
+};
+
+export const decimalFromNumber = (x: number, options: FromNumberOptions = {}): [bigint, number] => {
+    const { mode = 'shortest', scale: targetScale, rounding = 'half-even' } = options;
+    if (!Number.isFinite(x)) {
+        throw new InvalidArgumentError('x', `cannot convert non-finite number: ${x}`);
+    }
+    if (targetScale !== undefined) {
+        assertScale(targetScale);
+    }
+
+    let value: bigint;
+    let scale: number;
+    if (mode === 'exact') {
+        [value, scale] = expandNumber(x);
+    } else {
+        const [, digits, digitsScale] = matchExponential(String(Math.abs(x)))!;
+        value = BigInt(digits);
+        scale = digitsScale;
+        if (scale < 0) {
+            value *= 10n ** BigInt(-scale);
+            scale = 0;
+        }
+        if (x < 0) {
+            value = -value;
+        }
+    }
+
+    if (targetScale === undefined) {
+        return [value, scale];
+    }
+    if (targetScale >= scale) {
+        return [value * 10n ** BigInt(targetScale - scale), targetScale];
+    }
+    const [rounded] = divideRounded(value, 10n ** BigInt(scale - targetScale), rounding);
+    return [rounded, targetScale];
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('expands doubles exactly', () => {
+        expect(expandNumber(0)).toEqual([0n, 0]);
+        expect(expandNumber(-0)).toEqual([0n, 0]);
+        expect(expandNumber(1)).toEqual([1n, 0]);
+        expect(expandNumber(-2.5)).toEqual([-25n, 1]);
+        expect(expandNumber(0.1)).toEqual([1000000000000000055511151231257827021181583404541015625n, 55]);
+        expect(expandNumber(2 ** 60)).toEqual([2n ** 60n, 0]);
+        expect(expandNumber(Number.MIN_VALUE)[1]).toBe(1074);
+        expect(expandNumber(Number.MAX_VALUE)[0]).toBe((2n ** 53n - 1n) << 971n);
+    });
+
+    it('converts the shortest representation', () => {
+        expect(decimalFromNumber(0.1)).toEqual([1n, 1]);
+        expect(decimalFromNumber(-0)).toEqual([0n, 0]);
+        expect(decimalFromNumber(1e-7)).toEqual([1n, 7]);
+        expect(decimalFromNumber(-1.5e-7)).toEqual([-15n, 8]);
+        expect(decimalFromNumber(1e21)).toEqual([10n ** 21n, 0]);
+        expect(decimalFromNumber(0.1 + 0.2)).toEqual([30000000000000004n, 17]);
+        expect(decimalFromNumber(0.1 + 0.2, { scale: 2 })).toEqual([30n, 2]);
+        expect(decimalFromNumber(1.5, { scale: 3 })).toEqual([1500n, 3]);
+        expect(decimalFromNumber(2.5, { scale: 0, rounding: 'half-up' })).toEqual([3n, 0]);
+    });
+
+    it('converts the exact value', () => {
+        expect(decimalFromNumber(0.1, { mode: 'exact', scale: 20 })).toEqual([10000000000000000555n, 20]);
+        expect(decimalFromNumber(1.005, { mode: 'exact', scale: 2 })).toEqual([100n, 2]);
+        expect(decimalFromNumber(1.005, { scale: 2 })).toEqual([100n, 2]);
+        expect(decimalFromNumber(1.005, { scale: 2, rounding: 'half-up' })).toEqual([101n, 2]);
+        expect(decimalFromNumber(1.005, { mode: 'exact', scale: 2, rounding: 'half-up' })).toEqual([100n, 2]);
+    });
+
+    it('rejects non-finite numbers', () => {
+        expect(() => decimalFromNumber(NaN)).toThrow('cannot convert non-finite number: NaN');
+        expect(() => decimalFromNumber(Infinity)).toThrow('cannot convert non-finite number: Infinity');
+        expect(() => decimalFromNumber(-Infinity, { mode: 'exact' })).toThrow();
+        expect(() => decimalFromNumber(1, { scale: -1 })).toThrow();
+    });
+}
@@ -1 +1,19 @@
+export * from './aggregate.js';
+export * from './allocate.js';
+export * from './big-scaled-integer.js';
+export * from './codec.js';
+export * from './context.js';
+export * from './db-column.js';
+export * from './errors.js';
+export * from './financial.js';
+export * from './fixed.js';
+export * from './format.js';
+export * from './from-number.js';
+export * from './ledger.js';
+export * from './locale-parse.js';
+export * from './money.js';
+export * from './rational.js';
+export * from './rounding.js';
+export * from './scaled-integer-array.js';
 export * from './scaled-integer.js';
+export * from './schema.js';
@@ -0,0 +1,380 @@
+import { BigScaledInteger } from './big-scaled-integer.js';
+import { decimalStringCodec } from './codec.js';
+import { InvalidArgumentError, ScaleError, ScaledIntegerError, assertScale } from './errors.js';
+import { ScaledInteger } from './scaled-integer.js';
+import { toSafeInteger } from './util.js';
+
+export type PostingSide = 'debit' | 'credit';
+
+export interface Posting {
+    readonly account: string;
+    readonly side: PostingSide;
+    // Always positive, the side gives the direction
+    readonly amount: ScaledInteger;
+}
+
+export interface JournalEntryInput {
+    description?: string;
+    postings: readonly Posting[];
+}
+
+export interface JournalEntry {
+    // Assigned by the ledger, starting at 1 and increasing by one per entry
+    readonly sequence: number;
+    readonly description: string;
+    readonly postings: readonly Posting[];
+    // Sequence of the entry this one reverses
+    readonly reverses?: number;
+}
+
+export interface TrialBalanceRow {
+    readonly account: string;
+    readonly debit: ScaledInteger;
+    readonly credit: ScaledInteger;
+}
+
+// Amounts are canonical decimal strings, so the scale survives the round trip
+export interface LedgerJSON {
+    scale: number;
+    entries: {
+        sequence: number;
+        description: string;
+        reverses?: number;
+        postings: { account: string; side: PostingSide; amount: string }[];
+    }[];
+}
+
+export class UnbalancedEntryError extends ScaledIntegerError {
+    readonly debits: BigScaledInteger;
+    readonly credits: BigScaledInteger;
+
+    constructor(debits: BigScaledInteger, credits: BigScaledInteger) {
+        const show = decimalStringCodec.encode;
+        super(`unbalanced entry: debits ${show(debits)}, credits ${show(credits)}`);
+        this.debits = debits;
+        this.credits = credits;
+    }
+}
+
+export class UnknownEntryError extends ScaledIntegerError {
+    readonly sequence: number;
+
+    constructor(sequence: number) {
+        super(`unknown entry: ${sequence}`);
+        this.sequence = sequence;
+    }
+}
+
+// Raised when reversing an entry that was already reversed, or a reversal
+export class ReversalError extends ScaledIntegerError {
+    readonly sequence: number;
+
+    constructor(sequence: number, message: string) {
+        super(message);
+        this.sequence = sequence;
+    }
+}
+
+// An append-only journal of balanced entries, all at one scale. Balances
+// are debits minus credits, so accounts with a normal credit balance, such
+// as revenue or liabilities, come out negative
+export class Ledger {
+    readonly scale: number;
+    private readonly _entries: JournalEntry[] = [];
+    private readonly _reversed = new Set<number>();
+
+    constructor(scale: number) {
+        assertScale(scale);
+        this.scale = scale;
+    }
+
+    static fromJSON(json: LedgerJSON): Ledger {
+        const ledger = new Ledger(json.scale);
+        for (const entry of json.entries) {
+            if (entry.sequence !== ledger._entries.length + 1) {
+                const message = `expected entry ${ledger._entries.length + 1}, got ${entry.sequence}`;
+                throw new InvalidArgumentError('json', message);
+            }
+            const postings = entry.postings.map(({ account, side, amount }) => ({
+                account,
+                side,
+                amount: decimalStringCodec.decode(amount).toScaledInteger(),
+            }));
+            ledger._append({ description: entry.description, postings }, entry.reverses);
+        }
+        return ledger;
+    }
+
+    get length(): number {
+        return this._entries.length;
+    }
+
+    // Rejects entries whose debits and credits differ, or whose amounts are
+    // not at the ledger scale
+    post(input: JournalEntryInput): JournalEntry {
+        return this._append(input, undefined);
+    }
+
+    private _append(input: JournalEntryInput, reverses: number | undefined): JournalEntry {
+        const invalid = (message: string) => new InvalidArgumentError('postings', message);
+        if (input.postings.length === 0) throw invalid('an entry needs at least one posting');
+        let debits = 0n;
+        let credits = 0n;
+        const postings = input.postings.map(({ account, side, amount }) => {
+            if (typeof account !== 'string' || account === '') throw invalid('account must be a non-empty string');
+            if (side !== 'debit' && side !== 'credit') throw invalid(`invalid posting side: ${side}`);
+            if (amount.scale !== this.scale) {
+                throw new ScaleError(`scale mismatch: expected ${this.scale}, got ${amount.scale}`);
+            }
+            if (!amount.isPositive()) throw invalid('posting amounts must be positive');
+            if (side === 'debit') {
+                debits += BigInt(amount.value);
+            } else {
+                credits += BigInt(amount.value);
+            }
+            return Object.freeze({ account, side, amount: amount.clone().freeze() });
+        });
+        if (debits !== credits) {
+            throw new UnbalancedEntryError(
+                new BigScaledInteger(debits, this.scale),
+                new BigScaledInteger(credits, this.scale),
+            );
+        }
+        if (reverses !== undefined) {
+            this._assertReversible(reverses);
+            this._reversed.add(reverses);
+        }
+        const entry: JournalEntry = Object.freeze({
+            sequence: this._entries.length + 1,
+            description: input.description ?? '',
+            postings: Object.freeze(postings),
+            ...(reverses === undefined ? {} : { reverses }),
+        });
+        this._entries.push(entry);
+        return entry;
+    }
+
+    private _assertReversible(sequence: number) {
+        const entry = this.entry(sequence);
+        if (this._reversed.has(sequence)) {
+            throw new ReversalError(sequence, `entry ${sequence} is already reversed`);
+        }
+        if (entry.reverses !== undefined) {
+            throw new ReversalError(sequence, `entry ${sequence} is itself a reversal`);
+        }
+    }
+
+    entry(sequence: number): JournalEntry {
+        const entry = this._entries[sequence - 1];
+        if (entry === undefined || !Number.isInteger(sequence)) {
+            throw new UnknownEntryError(sequence);
+        }
+        return entry;
+    }
+
+    // Entries up to and including `asOf`, or all of them
+    entries(asOf: number = this._entries.length): readonly JournalEntry[] {
+        return this._entries.slice(0, Math.max(0, asOf));
+    }
+
+    // Posts the same amounts on the opposite sides. Each entry can be
+    // reversed once, and reversals cannot be reversed
+    reverse(sequence: number, description: string = `reversal of entry ${sequence}`): JournalEntry {
+        const postings = this.entry(sequence).postings.map(posting => ({
+            ...posting,
+            side: posting.side === 'debit' ? ('credit' as const) : ('debit' as const),
+        }));
+        return this._append({ description, postings }, sequence);
+    }
+
+    isReversed(sequence: number): boolean {
+        this.entry(sequence);
+        return this._reversed.has(sequence);
+    }
+
+    private _totals(asOf: number | undefined): Map<string, bigint> {
+        const totals = new Map<string, bigint>();
+        for (const entry of this.entries(asOf)) {
+            for (const { account, side, amount } of entry.postings) {
+                const value = BigInt(amount.value);
+                totals.set(account, (totals.get(account) ?? 0n) + (side === 'debit' ? value : -value));
+            }
+        }
+        return totals;
+    }
+
+    private _toAmount(value: bigint, account: string): ScaledInteger {
+        const operands = [account, new BigScaledInteger(value, this.scale)];
+        return new ScaledInteger(toSafeInteger(value, 'balance', operands), this.scale);
+    }
+
+    // Zero for accounts without postings
+    balance(account: string, asOf?: number): ScaledInteger {
+        return this._toAmount(this._totals(asOf).get(account) ?? 0n, account);
+    }
+
+    // Every account with postings, in order of first use
+    balances(asOf?: number): Map<string, ScaledInteger> {
+        const totals = this._totals(asOf);
+        return new Map([...totals].map(([account, total]) => [account, this._toAmount(total, account)]));
+    }
+
+    // Each balance in its debit or credit column, sorted by account. The two
+    // columns always have equal totals
+    trialBalance(asOf?: number): TrialBalanceRow[] {
+        const zero = new ScaledInteger(0, this.scale);
+        return [...this.balances(asOf)]
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([account, balance]) =>
+                balance.isNegative()
+                    ? { account, debit: zero, credit: new ScaledInteger(-balance.value, this.scale) }
+                    : { account, debit: balance, credit: zero },
+            );
+    }
+
+    toJSON(): LedgerJSON {
+        return {
+            scale: this.scale,
+            entries: this._entries.map(({ sequence, description, reverses, postings }) => ({
+                sequence,
+                description,
+                ...(reverses === undefined ? {} : { reverses }),
+                postings: postings.map(({ account, side, amount }) => ({
+                    account,
+                    side,
+                    amount: decimalStringCodec.encode(amount),
+                })),
+            })),
+        };
+    }
+}
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const d = (str: string) => ScaledInteger.parse(str).withScale(2);
+    const debit = (account: string, amount: string): Posting => ({ account, side: 'debit', amount: d(amount) });
+    const credit = (account: string, amount: string): Posting => ({ account, side: 'credit', amount: d(amount) });
+
+    const sample = () => {
+        const ledger = new Ledger(2);
+        ledger.post({ description: 'capital', postings: [debit('cash', '1000'), credit('equity', '1000')] });
+        ledger.post({
+            description: 'sale',
+            postings: [debit('cash', '107.5'), credit('revenue', '100'), credit('tax', '7.5')],
+        });
+        ledger.post({ description: 'rent', postings: [debit('rent', '400'), credit('cash', '400')] });
+        return ledger;
+    };
+
+    it('posts balanced entries', () => {
+        const ledger = sample();
+        expect(ledger.length).toBe(3);
+        expect(ledger.entry(2)).toMatchObject({ sequence: 2, description: 'sale' });
+        expect(ledger.entry(2).postings).toHaveLength(3);
+        expect(Object.isFrozen(ledger.entry(2))).toBe(true);
+        expect(ledger.entry(2).postings[0]!.amount.isFrozen()).toBe(true);
+        expect(() => ledger.entry(4)).toThrow('unknown entry: 4');
+        expect(() => ledger.entry(0)).toThrow('unknown entry: 0');
+        expect(() => ledger.entry(1.5)).toThrow(UnknownEntryError);
+    });
+
+    it('rejects invalid entries', () => {
+        const ledger = new Ledger(2);
+        const unbalanced = () => ledger.post({ postings: [debit('cash', '10'), credit('revenue', '9.99')] });
+        expect(unbalanced).toThrow(UnbalancedEntryError);
+        expect(unbalanced).toThrow('unbalanced entry: debits 10.00, credits 9.99');
+        try {
+            unbalanced();
+        } catch (error) {
+            expect((error as UnbalancedEntryError).credits.toJSON()).toEqual({ value: '999', scale: 2 });
+        }
+
+        const mixed = () =>
+            ledger.post({
+                postings: [
+                    { account: 'cash', side: 'debit', amount: ScaledInteger.parse('0.125') },
+                    credit('revenue', '0.13'),
+                ],
+            });
+        expect(mixed).toThrow(ScaleError);
+        expect(mixed).toThrow('scale mismatch: expected 2, got 3');
+
+        expect(() => ledger.post({ postings: [] })).toThrow('an entry needs at least one posting');
+        expect(() => ledger.post({ postings: [debit('cash', '0'), credit('revenue', '0')] })).toThrow(
+            'posting amounts must be positive',
+        );
+        expect(() => ledger.post({ postings: [debit('', '1'), credit('revenue', '1')] })).toThrow(
+            InvalidArgumentError,
+        );
+        const sideways = { account: 'cash', side: 'sideways' as PostingSide, amount: ScaledInteger.parse('1.00') };
+        expect(() => ledger.post({ postings: [sideways] })).toThrow('invalid posting side: sideways');
+        expect(() => ledger.post({ postings: [] })).toThrow(InvalidArgumentError);
+        expect(ledger.length).toBe(0);
+        expect(() => new Ledger(-1)).toThrow(ScaleError);
+    });
+
+    it('computes balances as of a sequence number', () => {
+        const ledger = sample();
+        expect(ledger.balance('cash').toString()).toBe('707.50');
+        expect(ledger.balance('cash', 1).toString()).toBe('1000');
+        expect(ledger.balance('cash', 0).toString()).toBe('0');
+        expect(ledger.balance('revenue').toJSON()).toEqual({ value: -10000, scale: 2 });
+        expect(ledger.balance('unused').toJSON()).toEqual({ value: 0, scale: 2 });
+        expect([...ledger.balances(2).keys()]).toEqual(['cash', 'equity', 'revenue', 'tax']);
+        expect(ledger.entries(2)).toHaveLength(2);
+
+        const rows = ledger.trialBalance();
+        expect(rows.map(row => [row.account, row.debit.toString(), row.credit.toString()])).toEqual([
+            ['cash', '707.50', '0'],
+            ['equity', '0', '1000'],
+            ['rent', '400', '0'],
+            ['revenue', '0', '100'],
+            ['tax', '0', '7.50'],
+        ]);
+        const total = (column: 'debit' | 'credit') => rows.reduce((sum, row) => sum + row[column].value, 0);
+        expect(total('debit')).toBe(total('credit'));
+    });
+
+    it('reverses entries', () => {
+        const ledger = sample();
+        const reversal = ledger.reverse(3);
+        expect(reversal).toMatchObject({ sequence: 4, reverses: 3, description: 'reversal of entry 3' });
+        expect(reversal.postings.map(posting => posting.side)).toEqual(['credit', 'debit']);
+        expect(ledger.balance('rent').isZero()).toBe(true);
+        expect(ledger.balance('rent', 3).toString()).toBe('400');
+        expect(ledger.isReversed(3)).toBe(true);
+        expect(ledger.isReversed(2)).toBe(false);
+        expect(() => ledger.reverse(3)).toThrow('entry 3 is already reversed');
+        expect(() => ledger.reverse(4)).toThrow('entry 4 is itself a reversal');
+        expect(() => ledger.reverse(9)).toThrow('unknown entry: 9');
+        expect(() => ledger.reverse(3)).toThrow(ReversalError);
+        expect(() => ledger.reverse(9)).toThrow(expect.objectContaining({ name: 'UnknownEntryError', sequence: 9 }));
+    });
+
+    it('round-trips through JSON', () => {
+        const ledger = sample();
+        ledger.reverse(2, 'refund');
+        const json = JSON.parse(JSON.stringify(ledger));
+        expect(json.entries[1].postings[0]).toEqual({ account: 'cash', side: 'debit', amount: '107.50' });
+        expect(json.entries[3]).toMatchObject({ sequence: 4, reverses: 2, description: 'refund' });
+
+        const restored = Ledger.fromJSON(json);
+        expect(restored.toJSON()).toEqual(ledger.toJSON());
+        expect(restored.isReversed(2)).toBe(true);
+        expect(restored.balance('cash').toString()).toBe('600');
+
+        const tampered = structuredClone(json);
+        tampered.entries[0].postings[0].amount = '1000.0';
+        expect(() => Ledger.fromJSON(tampered)).toThrow(ScaleError);
+        tampered.entries[0].postings[0].amount = '999.99';
+        expect(() => Ledger.fromJSON(tampered)).toThrow(UnbalancedEntryError);
+        expect(() => Ledger.fromJSON({ ...json, scale: 3 })).toThrow(ScaleError);
+        expect(() => Ledger.fromJSON({ ...json, entries: json.entries.slice(1) })).toThrow('expected entry 1, got 2');
+        expect(() => Ledger.fromJSON({ ...json, entries: json.entries.slice(1) })).toThrow(InvalidArgumentError);
+        const loose = structuredClone(json);
+        loose.entries[0].postings[0].amount = '01000.00';
+        expect(() => Ledger.fromJSON(loose)).toThrow('non-canonical decimal string');
+    });
+}
@@ -0,0 +1,267 @@
+import { ParseError, type Result } from './errors.js';
+import { localeFormatOptions } from './format.js';
+
+export interface LocaleParseOptions {
+    // Separators are read from `Intl.NumberFormat` locale data, and can still
+    // be overridden with the options below
+    locale?: string | string[];
+    decimalSeparator?: string;
+    groupSeparators?: string[];
+    // Digits in the group left of the decimal separator, and in each group
+    // further left. Default to the locale's grouping, otherwise 3
+    groupSize?: number;
+    secondaryGroupSize?: number;
+    // Accepted in addition to any single currency symbol character (`$`, `€`, ...)
+    currencySymbols?: string[];
+    allowParentheses?: boolean;
+    allowPercent?: boolean;
+}
+
+export type ParseResult<T> = Result<T, ParseError>;
+
+const MINUS_SIGNS = ['-', '\u2212', '\u2012', '\u2013', '\ufe63', '\uff0d'];
+const PLUS_SIGNS = ['+', '\uff0b'];
+const SPACES = [' ', '\u00a0', '\u2009', '\u202f'];
+const WHITESPACE_REGEX = /\s/u;
+const CURRENCY_REGEX = /\p{Sc}/u;
+const DIGIT_REGEX = /[0-9]/;
+
+const resolveOptions = (options: LocaleParseOptions) => {
+    const preset = options.locale === undefined ? {} : localeFormatOptions(options.locale);
+    const decimalSeparator = options.decimalSeparator ?? preset.decimalSeparator ?? '.';
+    let groupSeparators = options.groupSeparators;
+    if (!groupSeparators) {
+        const group = preset.groupSeparator ?? (decimalSeparator === ',' ? '.' : ',');
+        // Users rarely type the exact space character a locale groups with
+        groupSeparators = SPACES.includes(group) ? SPACES : [group, ...SPACES];
+    }
+    const groupSize = options.groupSize ?? preset.groupSize ?? 3;
+    return {
+        decimalSeparator,
+        groupSeparators: groupSeparators.filter(separator => separator !== decimalSeparator),
+        groupSize,
+        secondaryGroupSize: options.secondaryGroupSize ?? preset.secondaryGroupSize ?? groupSize,
+        currencySymbols: options.currencySymbols ?? [],
+        allowParentheses: options.allowParentheses ?? true,
+        allowPercent: options.allowPercent ?? true,
+    };
+};
+
+const startsWithAny = (str: string, position: number, candidates: string[]): string | undefined => {
+    for (const candidate of candidates) {
+        if (candidate !== '' && str.startsWith(candidate, position)) {
+            return candidate;
+        }
+    }
+    return;
+};
+
+// Parses a user-entered amount into a canonical `[-]digits[.digits]` string that
+// the strict decimal parsers accept
+export const parseLocaleDecimal = (input: string, options: LocaleParseOptions = {}): ParseResult<string> => {
+    const {
+        decimalSeparator,
+        groupSeparators,
+        groupSize,
+        secondaryGroupSize,
+        currencySymbols,
+        allowParentheses,
+        allowPercent,
+    } = resolveOptions(options);
+
+    const fail = (message: string, position: number): ParseResult<string> => ({
+        ok: false,
+        error: new ParseError(input, position, message),
+    });
+
+    const { length } = input;
+    let i = 0;
+    let negative = false;
+    let signed = false;
+    let currency = false;
+    let parenthesized = false;
+
+    const skipCurrency = (): boolean => {
+        const symbol = startsWithAny(input, i, currencySymbols);
+        if (symbol !== undefined) {
+            i += symbol.length;
+            return true;
+        }
+        if (CURRENCY_REGEX.test(input[i]!)) {
+            i += 1;
+            return true;
+        }
+        return false;
+    };
+
+    while (i < length) {
+        const char = input[i]!;
+        if (WHITESPACE_REGEX.test(char)) {
+            i += 1;
+        } else if (MINUS_SIGNS.includes(char) || PLUS_SIGNS.includes(char)) {
+            if (signed || parenthesized) return fail('unexpected sign', i);
+            negative = MINUS_SIGNS.includes(char);
+            signed = true;
+            i += 1;
+        } else if (char === '(' && allowParentheses) {
+            if (signed || parenthesized) return fail('unexpected parenthesis', i);
+            parenthesized = true;
+            i += 1;
+        } else if (!currency && skipCurrency()) {
+            currency = true;
+        } else {
+            break;
+        }
+    }
+
+    let major = '';
+    let minor = '';
+    let fractional = false;
+    // Digit count of each group in `major`, and the position of the
+    // separator before every group but the first
+    const groups = [0];
+    const separators: number[] = [];
+    while (i < length) {
+        const char = input[i]!;
+        if (DIGIT_REGEX.test(char)) {
+            if (fractional) {
+                minor += char;
+            } else {
+                major += char;
+                groups[groups.length - 1]! += 1;
+            }
+            i += 1;
+            continue;
+        }
+        if (!fractional && input.startsWith(decimalSeparator, i)) {
+            fractional = true;
+            i += decimalSeparator.length;
+            continue;
+        }
+        const group = fractional ? undefined : startsWithAny(input, i, groupSeparators);
+        if (group !== undefined && major !== '' && DIGIT_REGEX.test(input[i + group.length] ?? '')) {
+            separators.push(i);
+            groups.push(0);
+            i += group.length;
+            continue;
+        }
+        break;
+    }
+
+    // With 3-digit groups `1,234,567` is accepted but `1,5` and `1234,567` are
+    // not, as a misplaced separator usually means a mistyped decimal separator
+    const last = groups.length - 1;
+    for (let k = last; k > 0; --k) {
+        if (groups[k] !== (k === last ? groupSize : secondaryGroupSize)) {
+            return fail('misplaced group separator', separators[k - 1]!);
+        }
+    }
+    if (last > 0 && groups[0]! > secondaryGroupSize) {
+        return fail('misplaced group separator', separators[0]!);
+    }
+
+    if (major === '' && minor === '') {
+        return fail(i < length ? 'unexpected character' : 'missing digits', i);
+    }
+
+    let percent = false;
+    while (i < length) {
+        const char = input[i]!;
+        if (WHITESPACE_REGEX.test(char)) {
+            i += 1;
+        } else if (char === ')' && parenthesized) {
+            parenthesized = false;
+            negative = true;
+            i += 1;
+        } else if (char === '%' && allowPercent && !percent) {
+            percent = true;
+            i += 1;
+        } else if (!currency && skipCurrency()) {
+            currency = true;
+        } else {
+            return fail('unexpected character', i);
+        }
+    }
+
+    if (parenthesized) {
+        return fail('unclosed parenthesis', length);
+    }
+
+    if (percent) {
+        const padded = major.padStart(3, '0');
+        minor = padded.slice(-2) + minor;
+        major = padded.slice(0, -2);
+    }
+
+    const value = `${negative ? '-' : ''}${major || '0'}${minor === '' ? '' : `.${minor}`}`;
+    return { ok: true, value };
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const parse = (input: string, options?: LocaleParseOptions) => {
+        const result = parseLocaleDecimal(input, options);
+        return result.ok ? result.value : result.error;
+    };
+
+    it('parses grouped amounts', () => {
+        expect(parse('1,234.56')).toBe('1234.56');
+        expect(parse('1,234,567')).toBe('1234567');
+        expect(parse(' 1 234.5 ')).toBe('1234.5');
+        expect(parse('.5')).toBe('0.5');
+        expect(parse('1.234,56', { decimalSeparator: ',' })).toBe('1234.56');
+        expect(parse('1.234,56', { locale: 'de-DE' })).toBe('1234.56');
+        expect(parse('1 234,56', { locale: 'fr-FR' })).toBe('1234.56');
+        expect(parse('1\u202f234,56', { locale: 'fr-FR' })).toBe('1234.56');
+        expect(parse("1'234.56", { groupSeparators: ["'"] })).toBe('1234.56');
+    });
+
+    it('parses signs, currencies and parentheses', () => {
+        expect(parse('(12.00)')).toBe('-12.00');
+        expect(parse('$ 1 234,50', { decimalSeparator: ',' })).toBe('1234.50');
+        expect(parse('-$5')).toBe('-5');
+        expect(parse('$-5')).toBe('-5');
+        expect(parse('\u22125')).toBe('-5');
+        expect(parse('+5 €')).toBe('5');
+        expect(parse('($5)')).toBe('-5');
+        expect(parse('USD 12.5', { currencySymbols: ['USD'] })).toBe('12.5');
+        expect(parse('12.5 CHF', { currencySymbols: ['CHF'] })).toBe('12.5');
+    });
+
+    it('parses percentages', () => {
+        expect(parse('12.5%')).toBe('0.125');
+        expect(parse('-1%')).toBe('-0.01');
+        expect(parse('150 %')).toBe('1.50');
+        expect(parse('.5%')).toBe('0.005');
+    });
+
+    it('reports the offending position', () => {
+        expect(parse('')).toMatchObject({ message: 'missing digits', input: '', position: 0 });
+        expect(parse('12a')).toMatchObject({ message: 'unexpected character', input: '12a', position: 2 });
+        expect(parse('1,,2')).toMatchObject({ message: 'unexpected character', input: '1,,2', position: 1 });
+        expect(parse('1.2.3')).toMatchObject({ message: 'unexpected character', input: '1.2.3', position: 3 });
+        expect(parse('--1')).toMatchObject({ message: 'unexpected sign', input: '--1', position: 1 });
+        expect(parse('(1')).toMatchObject({ message: 'unclosed parenthesis', input: '(1', position: 2 });
+        expect(parse('1)')).toMatchObject({ message: 'unexpected character', input: '1)', position: 1 });
+        expect(parse('$1$')).toMatchObject({ message: 'unexpected character', input: '$1$', position: 2 });
+        expect(parse('5%', { allowPercent: false })).toMatchObject({ position: 1 });
+        expect(parse('(5)', { allowParentheses: false })).toMatchObject({ position: 0 });
+    });
+
+    it('rejects misplaced group separators', () => {
+        const misplaced = (position: number) => ({ message: 'misplaced group separator', position });
+        expect(parse('1,5')).toMatchObject(misplaced(1));
+        expect(parse('1,5000')).toMatchObject(misplaced(1));
+        expect(parse('1234,567')).toMatchObject(misplaced(4));
+        expect(parse('1,23,456')).toMatchObject(misplaced(1));
+        expect(parse('1,234,56.7')).toMatchObject(misplaced(5));
+        expect(parse('1 5')).toMatchObject(misplaced(1));
+        expect(parse('1,5', { decimalSeparator: ',' })).toBe('1.5');
+        expect(parse('1.5', { locale: 'de-DE' })).toMatchObject(misplaced(1));
+        expect(parse('12,34,567', { locale: 'en-IN' })).toBe('1234567');
+        expect(parse('1,234,567', { locale: 'en-IN' })).toMatchObject(misplaced(1));
+        expect(parse('1234,5678', { groupSize: 4 })).toBe('12345678');
+    });
+}
@@ -0,0 +1,302 @@
+import type { AllocateOptions } from './allocate.js';
+import { InvalidArgumentError, OverflowError, ScaleError, ScaledIntegerError, assertScale } from './errors.js';
+import type { FormatOptions } from './format.js';
+import type { RoundingMode } from './rounding.js';
+import { ScaledInteger } from './scaled-integer.js';
+
+export interface Currency {
+    code: string;
+    // Number of digits after the decimal point in the minor unit, as listed in
+    // ISO 4217 (JPY 0, USD 2, KWD 3)
+    minorUnits: number;
+}
+
+// Amounts are formatted at the currency's scale, e.g. `{ amount: '12.50', currency: 'USD' }`
+export interface MoneyJSON {
+    amount: string;
+    currency: string;
+}
+
+// prettier-ignore
+const ISO_4217_MINOR_UNITS: [string, number][] = [
+    ['AED', 2], ['AUD', 2], ['BHD', 3], ['BRL', 2], ['CAD', 2], ['CHF', 2], ['CLP', 0], ['CNY', 2],
+    ['CZK', 2], ['DKK', 2], ['EUR', 2], ['GBP', 2], ['HKD', 2], ['HUF', 2], ['IDR', 2], ['ILS', 2],
+    ['INR', 2], ['IQD', 3], ['ISK', 0], ['JOD', 3], ['JPY', 0], ['KRW', 0], ['KWD', 3], ['LYD', 3],
+    ['MXN', 2], ['MYR', 2], ['NOK', 2], ['NZD', 2], ['OMR', 3], ['PHP', 2], ['PLN', 2], ['PYG', 0],
+    ['RUB', 2], ['SAR', 2], ['SEK', 2], ['SGD', 2], ['THB', 2], ['TND', 3], ['TRY', 2], ['TWD', 2],
+    ['UGX', 0], ['USD', 2], ['VND', 0], ['XAF', 0], ['XOF', 0], ['ZAR', 2],
+];
+
+const currencies = new Map<string, Currency>(
+    ISO_4217_MINOR_UNITS.map(([code, minorUnits]) => [code, { code, minorUnits }]),
+);
+
+export class UnknownCurrencyError extends ScaledIntegerError {
+    readonly code: string;
+
+    constructor(code: string) {
+        super(`unknown currency: ${code}`);
+        this.code = code;
+    }
+}
+
+// Adds or replaces a currency, e.g. for crypto assets or internal units
+export const registerCurrency = (currency: Currency): Currency => {
+    const { code, minorUnits } = currency;
+    if (code === '') throw new InvalidArgumentError('code', 'currency code must not be empty');
+    assertScale(minorUnits, 'minorUnits');
+    const registered = Object.freeze({ code, minorUnits });
+    currencies.set(code, registered);
+    return registered;
+};
+
+// Removes a currency, returning whether it was registered
+export const unregisterCurrency = (code: string): boolean => {
+    return currencies.delete(code);
+};
+
+export const getCurrency = (code: string): Currency => {
+    const currency = currencies.get(code);
+    if (!currency) {
+        throw new UnknownCurrencyError(code);
+    }
+    return currency;
+};
+
+export class CurrencyMismatchError extends ScaledIntegerError {
+    readonly expected: string;
+    readonly actual: string;
+
+    constructor(expected: string, actual: string) {
+        super(`currency mismatch: expected ${expected}, got ${actual}`);
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+// An immutable amount of a currency, always held at the scale of the currency
+// minor unit
+export class Money {
+    private readonly _amount: ScaledInteger;
+    private readonly _currency: Currency;
+
+    private constructor(amount: ScaledInteger, currency: Currency) {
+        this._amount = amount.freeze();
+        this._currency = currency;
+        Object.freeze(this);
+    }
+
+    // Amounts with more fraction digits than the currency allows are only
+    // accepted when a rounding mode is given
+    static of(amount: string | ScaledInteger, code: string, rounding: RoundingMode = 'unnecessary'): Money {
+        const currency = getCurrency(code);
+        const value = typeof amount === 'string' ? ScaledInteger.parse(amount) : amount;
+        return new Money(value.withScale(currency.minorUnits, rounding), currency);
+    }
+
+    static fromMinorUnits(units: number, code: string): Money {
+        const currency = getCurrency(code);
+        return new Money(new ScaledInteger(units, currency.minorUnits), currency);
+    }
+
+    static zero(code: string): Money {
+        return Money.fromMinorUnits(0, code);
+    }
+
+    static deserialize(input: MoneyJSON): Money {
+        const { amount, currency } = input;
+        return Money.of(amount, currency);
+    }
+
+    static compare(a: Money, b: Money): -1 | 0 | 1 {
+        a._assertSameCurrency(b);
+        return ScaledInteger.compare(a._amount, b._amount);
+    }
+
+    static equal(a: Money, b: Money): boolean {
+        return a._currency.code === b._currency.code && ScaledInteger.equal(a._amount, b._amount);
+    }
+
+    get amount() {
+        return this._amount;
+    }
+
+    get currency() {
+        return this._currency.code;
+    }
+
+    // Unscaled amount in minor units, e.g. 1250 for 12.50 USD
+    get minorAmount() {
+        return this._amount.value;
+    }
+
+    isZero() {
+        return this._amount.isZero();
+    }
+
+    isPositive() {
+        return this._amount.isPositive();
+    }
+
+    isNegative() {
+        return this._amount.isNegative();
+    }
+
+    private _assertSameCurrency(other: Money) {
+        if (this._currency.code !== other._currency.code) {
+            throw new CurrencyMismatchError(this._currency.code, other._currency.code);
+        }
+    }
+
+    private _with(amount: ScaledInteger): Money {
+        return new Money(amount, this._currency);
+    }
+
+    plus(other: Money): Money {
+        this._assertSameCurrency(other);
+        return this._with(this._amount.plus(other._amount));
+    }
+
+    minus(other: Money): Money {
+        this._assertSameCurrency(other);
+        return this._with(this._amount.minus(other._amount));
+    }
+
+    negated(): Money {
+        return this._with(new ScaledInteger(0, this._amount.scale).minus(this._amount));
+    }
+
+    times(factor: ScaledInteger, rounding: RoundingMode = 'half-even'): Money {
+        return this._with(this._amount.times(factor).round(this._currency.minorUnits, rounding));
+    }
+
+    dividedBy(divisor: ScaledInteger, rounding: RoundingMode = 'half-even'): Money {
+        return this._with(this._amount.dividedBy(divisor, this._currency.minorUnits, rounding));
+    }
+
+    allocate(ratios: (number | ScaledInteger)[], options: AllocateOptions = {}): Money[] {
+        const parts = this._amount.allocate(ratios, this._currency.minorUnits, options);
+        return parts.map(part => this._with(part));
+    }
+
+    split(count: number, options: AllocateOptions = {}): Money[] {
+        const parts = this._amount.split(count, this._currency.minorUnits, options);
+        return parts.map(part => this._with(part));
+    }
+
+    format(options: FormatOptions = {}): string {
+        const { minorUnits } = this._currency;
+        return this._amount.format({
+            minimumFractionDigits: minorUnits,
+            maximumFractionDigits: minorUnits,
+            ...options,
+        });
+    }
+
+    toString(): string {
+        return `${this.format()} ${this._currency.code}`;
+    }
+
+    toJSON(): MoneyJSON {
+        return { amount: this.format(), currency: this._currency.code };
+    }
+}
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('holds amounts at the currency scale', () => {
+        expect(Money.of('12.3', 'USD').amount.toJSON()).toEqual({ value: 1230, scale: 2 });
+        expect(Money.of('1200', 'JPY').amount.toJSON()).toEqual({ value: 1200, scale: 0 });
+        expect(Money.of('1.5', 'KWD').toString()).toBe('1.500 KWD');
+        expect(Money.of('-0.5', 'EUR').toString()).toBe('-0.50 EUR');
+        expect(Money.fromMinorUnits(1999, 'USD').toString()).toBe('19.99 USD');
+        expect(Money.zero('JPY').toString()).toBe('0 JPY');
+
+        expect(() => Money.of('12.345', 'USD')).toThrow('rounding necessary');
+        expect(Money.of('12.345', 'USD', 'half-up').toString()).toBe('12.35 USD');
+        expect(Money.of(ScaledInteger.parse('12.3450'), 'USD', 'half-even').toString()).toBe('12.34 USD');
+        expect(() => Money.of('1', 'XXX')).toThrow('unknown currency: XXX');
+        expect(() => Money.of('1', 'XXX')).toThrow(UnknownCurrencyError);
+        expect(() => Money.zero('')).toThrow(UnknownCurrencyError);
+        expect(() => Money.of('9007199254740991', 'USD')).toThrow(OverflowError);
+        expect(() => Money.of(new ScaledInteger(Number.MAX_SAFE_INTEGER), 'KWD')).toThrow(OverflowError);
+        expect(Money.of('90071992547409.91', 'USD').minorAmount).toBe(Number.MAX_SAFE_INTEGER);
+        expect(Money.of('12.5', 'USD').minorAmount).toBe(1250);
+    });
+
+    it('arithmetic', () => {
+        const a = Money.of('10.00', 'USD');
+        const b = Money.of('0.25', 'USD');
+
+        expect(a.plus(b).toString()).toBe('10.25 USD');
+        expect(a.minus(b).toString()).toBe('9.75 USD');
+        expect(b.negated().toString()).toBe('-0.25 USD');
+        expect(a.times(ScaledInteger.parse('0.0825')).toString()).toBe('0.82 USD');
+        expect(a.times(ScaledInteger.parse('0.0825'), 'ceiling').toString()).toBe('0.83 USD');
+        expect(a.dividedBy(ScaledInteger.parse('3')).toString()).toBe('3.33 USD');
+        expect(a.toString()).toBe('10.00 USD');
+
+        expect(Money.compare(a, b)).toBe(+1);
+        expect(Money.equal(a, Money.of('10', 'USD'))).toBe(true);
+        expect(Money.equal(a, Money.of('10', 'EUR'))).toBe(false);
+    });
+
+    it('rejects mixed currencies', () => {
+        const usd = Money.of('1', 'USD');
+        const eur = Money.of('1', 'EUR');
+
+        expect(() => usd.plus(eur)).toThrow(CurrencyMismatchError);
+        expect(() => Money.compare(usd, eur)).toThrow(CurrencyMismatchError);
+        const error = (() => {
+            try {
+                usd.minus(eur);
+            } catch (error) {
+                return error;
+            }
+            return;
+        })();
+        expect(error).toBeInstanceOf(CurrencyMismatchError);
+        expect(error).toMatchObject({ expected: 'USD', actual: 'EUR' });
+    });
+
+    it('serializes to json', () => {
+        const a = Money.of('-1234.5', 'USD');
+        expect(a.toJSON()).toEqual({ amount: '-1234.50', currency: 'USD' });
+        expect(Money.equal(Money.deserialize(JSON.parse(JSON.stringify(a))), a)).toBe(true);
+        expect(() => Money.deserialize({ amount: '1.234', currency: 'USD' })).toThrow();
+        expect(() => Money.deserialize({ amount: '1,00', currency: 'USD' })).toThrow();
+    });
+
+    it('formats at the currency scale by default', () => {
+        expect(Money.of('1234567', 'JPY').format({ groupSeparator: ',' })).toBe('1,234,567');
+        expect(Money.of('-1234.5', 'USD').format({ groupSeparator: ',', accounting: true })).toBe('(1,234.50)');
+        expect(Money.of('1.5', 'USD').format({ minimumFractionDigits: 0 })).toBe('1.5');
+    });
+
+    it('custom currencies', () => {
+        registerCurrency({ code: 'BTC', minorUnits: 8 });
+        try {
+            expect(Money.of('0.00000001', 'BTC').minorAmount).toBe(1);
+            expect(getCurrency('BTC')).toEqual({ code: 'BTC', minorUnits: 8 });
+        } finally {
+            expect(unregisterCurrency('BTC')).toBe(true);
+        }
+        expect(() => getCurrency('BTC')).toThrow(UnknownCurrencyError);
+        expect(unregisterCurrency('BTC')).toBe(false);
+        expect(() => registerCurrency({ code: 'BAD', minorUnits: -1 })).toThrow(ScaleError);
+        expect(() => registerCurrency({ code: '', minorUnits: 2 })).toThrow(InvalidArgumentError);
+        expect(() => getCurrency('BAD')).toThrow(UnknownCurrencyError);
+    });
+
+    it('allocates in minor units', () => {
+        expect(Money.of('10', 'USD').split(3).map(String)).toEqual(['3.34 USD', '3.33 USD', '3.33 USD']);
+        expect(Money.of('100', 'JPY').split(3, { distribution: 'back' }).map(String)).toEqual([
+            '33 JPY',
+            '33 JPY',
+            '34 JPY',
+        ]);
+        expect(Money.of('-1', 'KWD').allocate([1, 2]).map(String)).toEqual(['-0.333 KWD', '-0.667 KWD']);
+    });
+}
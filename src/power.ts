@@ -0,0 +1,155 @@
+import { InvalidArgumentError, OverflowError, assertScale } from './errors.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+// Largest number of digits an intermediate power or root may need. Checked
+// before any arithmetic, as bigint powers of huge exponents never finish
+const MAX_DIGITS = 100_000;
+
+const assertExponent = (exponent: number) => {
+    if (!Number.isSafeInteger(exponent)) throw new InvalidArgumentError('exponent', 'exponent must be a safe integer');
+};
+
+// Returns the largest integer `r` with `r ** n <= m`, and whether the root is
+// inexact. Newton's method starting above the root converges from above
+export const integerRoot = (m: bigint, n: number): [bigint, boolean] => {
+    if (m < 2n) {
+        return [m, false];
+    }
+    const k = BigInt(n);
+    let x = 1n << BigInt(Math.ceil(m.toString(2).length / n));
+    for (;;) {
+        const y = ((k - 1n) * x + m / x ** (k - 1n)) / k;
+        if (y >= x) break;
+        x = y;
+    }
+    return [x, x ** k !== m];
+};
+
+// Raises `value / 10^scale` to an integer `exponent`. Non-negative exponents
+// are exact unless `targetScale` asks for fewer digits, negative ones need a
+// `targetScale` to divide to. Returns unscaled digits and their scale
+export const powerRounded = (
+    value: bigint,
+    scale: number,
+    exponent: number,
+    targetScale: number | undefined,
+    rounding: RoundingMode,
+): [bigint, number] => {
+    assertExponent(exponent);
+    if (targetScale !== undefined) {
+        assertScale(targetScale);
+    }
+    const e = Math.abs(exponent);
+    const magnitude = value < 0n ? -value : value;
+    const powerDigits = magnitude > 1n ? magnitude.toString().length * e : 0;
+    const powerScale = scale * e;
+    if (powerDigits > MAX_DIGITS || powerScale > MAX_DIGITS || (targetScale ?? 0) > MAX_DIGITS) {
+        throw new OverflowError('exponentiation', [value, exponent], 'exponent is too large');
+    }
+    const power = value ** BigInt(e);
+    if (exponent < 0) {
+        if (targetScale === undefined) {
+            throw new InvalidArgumentError('scale', 'negative exponents require a scale');
+        }
+        // 1 / (p / 10^ps) == 10^ps / p
+        const [q] = divideRounded(pow10(powerScale + targetScale), power, rounding);
+        return [q, targetScale];
+    }
+    if (targetScale === undefined) {
+        return [power, powerScale];
+    }
+    if (targetScale >= powerScale) {
+        return [power * pow10(targetScale - powerScale), targetScale];
+    }
+    const [rounded] = divideRounded(power, pow10(powerScale - targetScale), rounding);
+    return [rounded, targetScale];
+};
+
+// Takes the `n`th root of `value / 10^scale`, correctly rounded to
+// `targetScale`. Returns the unscaled digits at `targetScale`
+export const rootRounded = (
+    value: bigint,
+    scale: number,
+    n: number,
+    targetScale: number,
+    rounding: RoundingMode,
+): bigint => {
+    if (!Number.isSafeInteger(n) || n < 1) {
+        throw new InvalidArgumentError('n', 'root degree must be a positive integer');
+    }
+    assertScale(targetScale);
+    if (value < 0n && n % 2 === 0) {
+        throw new InvalidArgumentError('value', 'even root of a negative number');
+    }
+    // At least one guard digit, and enough that the radicand is an integer
+    const workScale = Math.max(targetScale + 1, Math.ceil(scale / n));
+    if (n * workScale > MAX_DIGITS) {
+        throw new OverflowError('root', [value, n], 'root degree or scale is too large');
+    }
+    const magnitude = value < 0n ? -value : value;
+    const [root, inexact] = integerRoot(magnitude * pow10(n * workScale - scale), n);
+    // A sticky digit keeps inexact roots from looking like exact ties
+    let digits = inexact ? root * 10n + 1n : root * 10n;
+    if (value < 0n) {
+        digits = -digits;
+    }
+    const [rounded] = divideRounded(digits, pow10(workScale + 1 - targetScale), rounding);
+    return rounded;
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('takes integer roots', () => {
+        expect(integerRoot(0n, 2)).toEqual([0n, false]);
+        expect(integerRoot(1n, 3)).toEqual([1n, false]);
+        expect(integerRoot(15n, 2)).toEqual([3n, true]);
+        expect(integerRoot(16n, 2)).toEqual([4n, false]);
+        expect(integerRoot(26n, 3)).toEqual([2n, true]);
+        expect(integerRoot(27n, 3)).toEqual([3n, false]);
+        expect(integerRoot(10n ** 40n, 4)).toEqual([10n ** 10n, false]);
+        expect(integerRoot(10n ** 40n - 1n, 4)).toEqual([10n ** 10n - 1n, true]);
+        expect(integerRoot(12345n, 1)).toEqual([12345n, false]);
+    });
+
+    it('raises to integer powers', () => {
+        expect(powerRounded(15n, 1, 2, undefined, 'half-even')).toEqual([225n, 2]);
+        expect(powerRounded(15n, 1, 0, undefined, 'half-even')).toEqual([1n, 0]);
+        expect(powerRounded(-2n, 0, 3, undefined, 'half-even')).toEqual([-8n, 0]);
+        expect(powerRounded(15n, 1, 3, 2, 'half-even')).toEqual([338n, 2]);
+        expect(powerRounded(15n, 1, 2, 4, 'half-even')).toEqual([22500n, 4]);
+        expect(powerRounded(3n, 0, -1, 4, 'half-even')).toEqual([3333n, 4]);
+        expect(powerRounded(-2n, 0, -3, 3, 'half-even')).toEqual([-125n, 3]);
+        expect(powerRounded(5n, 1, -2, 0, 'half-even')).toEqual([4n, 0]);
+        expect(() => powerRounded(3n, 0, -1, undefined, 'half-even')).toThrow('negative exponents require a scale');
+        expect(() => powerRounded(0n, 0, -1, 2, 'half-even')).toThrow('division by zero');
+        expect(() => powerRounded(2n, 0, 0.5, 2, 'half-even')).toThrow('exponent must be a safe integer');
+        expect(() => powerRounded(2n, 0, -1e9, 2, 'half-even')).toThrow(OverflowError);
+        expect(() => powerRounded(2n, 0, 1e9, 2, 'half-even')).toThrow('exponent is too large');
+        expect(() => powerRounded(5n, 1, 1e9, 2, 'half-even')).toThrow(OverflowError);
+        expect(() => powerRounded(2n, 0, 2, 1e9, 'half-even')).toThrow(OverflowError);
+        expect(powerRounded(-1n, 0, 1e9 + 1, undefined, 'half-even')).toEqual([-1n, 0]);
+        expect(powerRounded(2n, 0, 99_999, undefined, 'half-even')[0]).toBe(2n ** 99_999n);
+    });
+
+    it('takes correctly rounded roots', () => {
+        expect(rootRounded(2n, 0, 2, 10, 'half-even')).toBe(14142135624n);
+        expect(rootRounded(2n, 0, 2, 10, 'floor')).toBe(14142135623n);
+        expect(rootRounded(225n, 2, 2, 2, 'unnecessary')).toBe(150n);
+        expect(rootRounded(225n, 2, 2, 0, 'half-even')).toBe(2n);
+        expect(rootRounded(625n, 2, 2, 0, 'half-even')).toBe(2n);
+        expect(rootRounded(625n, 2, 2, 0, 'half-up')).toBe(3n);
+        expect(rootRounded(-27n, 0, 3, 2, 'unnecessary')).toBe(-300n);
+        expect(rootRounded(-2n, 0, 3, 3, 'floor')).toBe(-1260n);
+        expect(rootRounded(-2n, 0, 3, 3, 'ceiling')).toBe(-1259n);
+        expect(rootRounded(1n, 5, 2, 3, 'half-even')).toBe(3n);
+        expect(() => rootRounded(-4n, 0, 2, 2, 'half-even')).toThrow('even root of a negative number');
+        expect(() => rootRounded(2n, 0, 2, 2, 'unnecessary')).toThrow('rounding necessary');
+        expect(() => rootRounded(2n, 0, 0, 2, 'half-even')).toThrow();
+        expect(() => rootRounded(2n, 0, 1e9, 2, 'half-even')).toThrow(OverflowError);
+        expect(() => rootRounded(2n, 0, 2, 1e9, 'half-even')).toThrow(OverflowError);
+    });
+}
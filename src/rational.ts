@@ -0,0 +1,364 @@
+import { BigScaledInteger, type AnyScaledInteger } from './big-scaled-integer.js';
+import { DivisionByZeroError, InvalidArgumentError, ParseError, assertScale } from './errors.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+import { ScaledInteger } from './scaled-integer.js';
+import { toSafeInteger } from './util.js';
+
+const RATIONAL_REGEX = /^[-+]?[0-9]+(\.[0-9]*(\([0-9]+\))?|\/[0-9]+)?$/;
+// Longest prefix of `str` that could still begin a valid rational string
+const PREFIX_REGEX = /^[-+]?[0-9]*(\.[0-9]*(\([0-9]*\)?)?|\/[0-9]*)?/;
+
+const abs = (n: bigint): bigint => (n < 0n ? -n : n);
+
+const gcd = (a: bigint, b: bigint): bigint => {
+    a = abs(a);
+    b = abs(b);
+    while (b !== 0n) {
+        [a, b] = [b, a % b];
+    }
+    return a;
+};
+
+const floorDivide = (n: bigint, d: bigint): bigint => {
+    const q = n / d;
+    return n % d !== 0n && n < 0n !== d < 0n ? q - 1n : q;
+};
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+// An exact fraction, always stored in lowest terms with a positive
+// denominator. Intermediate results such as `days / 365` stay exact until
+// `toScaledInteger` rounds them once, at a scale the caller picks
+export class Rational {
+    readonly numerator: bigint;
+    readonly denominator: bigint;
+
+    constructor(numerator: bigint, denominator: bigint = 1n) {
+        if (typeof numerator !== 'bigint' || typeof denominator !== 'bigint') {
+            throw TypeError('numerator and denominator must be bigints');
+        }
+        if (denominator === 0n) {
+            throw new DivisionByZeroError();
+        }
+        const divisor = gcd(numerator, denominator) * (denominator < 0n ? -1n : 1n);
+        this.numerator = numerator / divisor;
+        this.denominator = denominator / divisor;
+        Object.freeze(this);
+    }
+
+    // Exact, as every decimal is a fraction over a power of ten
+    static from(value: AnyScaledInteger | bigint | number): Rational {
+        if (typeof value === 'bigint') {
+            return new Rational(value);
+        }
+        if (typeof value === 'number') {
+            if (!Number.isSafeInteger(value)) throw new InvalidArgumentError('value', 'number must be a safe integer');
+            return new Rational(BigInt(value));
+        }
+        return new Rational(BigInt(value.value), pow10(value.scale));
+    }
+
+    // Accepts integers, fractions such as `-2/3` and decimals with an
+    // optional repeating part in parentheses, such as `0.1(6)`
+    static parse(str: string): Rational {
+        if (!RATIONAL_REGEX.test(str)) {
+            const prefix = str.match(PREFIX_REGEX)![0].length;
+            throw new ParseError(str, prefix, 'invalid rational string');
+        }
+        const negative = str.startsWith('-');
+        const unsigned = str.replace(/^[-+]/, '');
+        let result: Rational;
+        if (unsigned.includes('/')) {
+            const [numerator, denominator] = unsigned.split('/');
+            result = new Rational(BigInt(numerator!), BigInt(denominator!));
+        } else {
+            const match = unsigned.match(/^([0-9]+)\.?([0-9]*)(?:\(([0-9]+)\))?$/)!;
+            const [, integer, fraction = '', repeating = ''] = match;
+            const base = BigInt(integer! + fraction);
+            result =
+                repeating === ''
+                    ? new Rational(base, pow10(fraction.length))
+                    : new Rational(
+                          BigInt(integer! + fraction + repeating) - base,
+                          pow10(fraction.length) * (pow10(repeating.length) - 1n),
+                      );
+        }
+        return negative ? result.negated() : result;
+    }
+
+    // Rebuilds `a0 + 1 / (a1 + 1 / (a2 + ...))` from its terms
+    static fromContinuedFraction(terms: readonly bigint[]): Rational {
+        if (terms.length === 0) throw new InvalidArgumentError('terms', 'at least one term is required');
+        let result = new Rational(terms[terms.length - 1]!);
+        for (let i = terms.length - 2; i >= 0; --i) {
+            result = new Rational(terms[i]!).plus(result.reciprocal());
+        }
+        return result;
+    }
+
+    static compare(a: Rational, b: Rational): -1 | 0 | 1 {
+        const left = a.numerator * b.denominator;
+        const right = b.numerator * a.denominator;
+        return left < right ? -1 : left > right ? 1 : 0;
+    }
+
+    static equal(a: Rational, b: Rational): boolean {
+        return a.numerator === b.numerator && a.denominator === b.denominator;
+    }
+
+    isZero() {
+        return this.numerator === 0n;
+    }
+
+    isPositive() {
+        return this.numerator > 0n;
+    }
+
+    isNegative() {
+        return this.numerator < 0n;
+    }
+
+    isInteger() {
+        return this.denominator === 1n;
+    }
+
+    plus(other: Rational): Rational {
+        return new Rational(
+            this.numerator * other.denominator + other.numerator * this.denominator,
+            this.denominator * other.denominator,
+        );
+    }
+
+    minus(other: Rational): Rational {
+        return this.plus(other.negated());
+    }
+
+    times(other: Rational): Rational {
+        return new Rational(this.numerator * other.numerator, this.denominator * other.denominator);
+    }
+
+    dividedBy(other: Rational): Rational {
+        return this.times(other.reciprocal());
+    }
+
+    negated(): Rational {
+        return new Rational(-this.numerator, this.denominator);
+    }
+
+    abs(): Rational {
+        return this.isNegative() ? this.negated() : this;
+    }
+
+    reciprocal(): Rational {
+        return new Rational(this.denominator, this.numerator);
+    }
+
+    // The only way back to a decimal, as most fractions have no exact one
+    toScaledInteger(scale: number, rounding: RoundingMode): ScaledInteger {
+        const value = this.toBigScaledInteger(scale, rounding);
+        return new ScaledInteger(toSafeInteger(value.toBigInt(), 'conversion', [value]), scale);
+    }
+
+    toBigScaledInteger(scale: number, rounding: RoundingMode): BigScaledInteger {
+        assertScale(scale);
+        const [value] = divideRounded(this.numerator * pow10(scale), this.denominator, rounding);
+        return new BigScaledInteger(value, scale);
+    }
+
+    // Terms of the continued fraction, the first one being the floor. Every
+    // rational has a finite expansion, which ends in a term greater than one
+    // unless it is the only term
+    continuedFraction(): bigint[] {
+        const terms: bigint[] = [];
+        let n = this.numerator;
+        let d = this.denominator;
+        while (d !== 0n) {
+            const term = floorDivide(n, d);
+            terms.push(term);
+            [n, d] = [d, n - term * d];
+        }
+        return terms;
+    }
+
+    // The closest fraction whose denominator is at most `maxDenominator`,
+    // found from the convergents and semiconvergents of the continued fraction
+    approximate(maxDenominator: bigint): Rational {
+        if (maxDenominator < 1n) throw new InvalidArgumentError('maxDenominator', 'maxDenominator must be positive');
+        if (this.denominator <= maxDenominator) {
+            return this;
+        }
+        let [p0, q0, p1, q1] = [0n, 1n, 1n, 0n];
+        let n = this.numerator;
+        let d = this.denominator;
+        for (;;) {
+            const term = floorDivide(n, d);
+            const q2 = q0 + term * q1;
+            if (q2 > maxDenominator) break;
+            [p0, q0, p1, q1] = [p1, q1, p0 + term * p1, q2];
+            [n, d] = [d, n - term * d];
+        }
+        const k = (maxDenominator - q0) / q1;
+        const semiconvergent = new Rational(p0 + k * p1, q0 + k * q1);
+        const convergent = new Rational(p1, q1);
+        const distance = (candidate: Rational) => candidate.minus(this).abs();
+        return Rational.compare(distance(convergent), distance(semiconvergent)) <= 0 ? convergent : semiconvergent;
+    }
+
+    // Decimal expansion with the repeating part in parentheses, as in
+    // `0.1(6)` for 1/6. Periods longer than `maxFractionDigits` are cut off
+    // and marked with a trailing `...`
+    toDecimalString(maxFractionDigits: number = 1000): string {
+        assertScale(maxFractionDigits, 'maxFractionDigits');
+        const magnitude = abs(this.numerator);
+        const d = this.denominator;
+        const sign = this.numerator < 0n ? '-' : '';
+        const integer = magnitude / d;
+        let remainder = magnitude % d;
+        if (remainder === 0n) {
+            return `${sign}${integer}`;
+        }
+        const digits: string[] = [];
+        const seen = new Map<bigint, number>();
+        while (remainder !== 0n) {
+            const start = seen.get(remainder);
+            if (start !== undefined) {
+                return `${sign}${integer}.${digits.slice(0, start).join('')}(${digits.slice(start).join('')})`;
+            }
+            if (digits.length === maxFractionDigits) {
+                return `${sign}${integer}.${digits.join('')}...`;
+            }
+            seen.set(remainder, digits.length);
+            remainder *= 10n;
+            digits.push(String(remainder / d));
+            remainder %= d;
+        }
+        return `${sign}${integer}.${digits.join('')}`;
+    }
+
+    toString(): string {
+        return this.isInteger() ? String(this.numerator) : `${this.numerator}/${this.denominator}`;
+    }
+
+    toJSON(): any {
+        return { numerator: String(this.numerator), denominator: String(this.denominator) };
+    }
+}
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const r = Rational.parse;
+    const d = ScaledInteger.parse;
+
+    it('reduces fractions', () => {
+        expect(new Rational(6n, -4n).toJSON()).toEqual({ numerator: '-3', denominator: '2' });
+        expect(new Rational(0n, -5n).toString()).toBe('0');
+        expect(new Rational(10n, 5n).isInteger()).toBe(true);
+        expect(() => new Rational(1n, 0n)).toThrow(DivisionByZeroError);
+        // @ts-expect-error the numerator must be a bigint
+        expect(() => new Rational(1)).toThrow(TypeError);
+    });
+
+    it('converts decimals exactly', () => {
+        expect(Rational.from(d('0.25')).toString()).toBe('1/4');
+        expect(Rational.from(d('-12.5')).toString()).toBe('-25/2');
+        expect(Rational.from(new BigScaledInteger(10n ** 30n + 1n, 30)).denominator).toBe(10n ** 30n);
+        expect(Rational.from(7).toString()).toBe('7');
+        expect(Rational.from(-3n).toString()).toBe('-3');
+        expect(() => Rational.from(0.5)).toThrow('number must be a safe integer');
+        expect(() => Rational.from(2 ** 53)).toThrow(InvalidArgumentError);
+    });
+
+    it('parses', () => {
+        expect(r('-2/6').toString()).toBe('-1/3');
+        expect(r('+42').toString()).toBe('42');
+        expect(r('1.25').toString()).toBe('5/4');
+        expect(r('0.(3)').toString()).toBe('1/3');
+        expect(r('0.1(6)').toString()).toBe('1/6');
+        expect(r('-1.(142857)').toString()).toBe('-8/7');
+        expect(r('0.(9)').toString()).toBe('1');
+        expect(r('3.').toString()).toBe('3');
+
+        const failure = (str: string) => {
+            try {
+                r(str);
+            } catch (error) {
+                expect(error).toBeInstanceOf(ParseError);
+                return error;
+            }
+            return;
+        };
+        expect(failure('')).toMatchObject({ position: 0, message: 'invalid rational string' });
+        expect(failure('1/')).toMatchObject({ position: 2 });
+        expect(failure('1.2(')).toMatchObject({ position: 4 });
+        expect(failure('1.()')).toMatchObject({ position: 4 });
+        expect(failure('1/-2')).toMatchObject({ position: 2 });
+        expect(failure('1.5x')).toMatchObject({ position: 3 });
+        expect(() => r('1/0')).toThrow(DivisionByZeroError);
+    });
+
+    it('does exact arithmetic', () => {
+        const third = r('1/3');
+        expect(third.plus(third).plus(third).toString()).toBe('1');
+        expect(r('1/2').minus(r('1/3')).toString()).toBe('1/6');
+        expect(r('2/3').times(r('-3/4')).toString()).toBe('-1/2');
+        expect(r('1/2').dividedBy(r('1/4')).toString()).toBe('2');
+        expect(() => r('1').dividedBy(r('0'))).toThrow(DivisionByZeroError);
+        expect(r('-2/3').abs().toString()).toBe('2/3');
+
+        expect(Rational.compare(r('1/3'), r('0.33'))).toBe(1);
+        expect(Rational.compare(r('-1/3'), r('-0.33'))).toBe(-1);
+        expect(Rational.compare(r('2/4'), r('0.5'))).toBe(0);
+        expect(Rational.equal(r('0.(3)'), r('1/3'))).toBe(true);
+    });
+
+    it('rounds once, at the end', () => {
+        // Pro-rating 1000.00 for 31 of 365 days, in twelve slices
+        const annual = Rational.from(d('1000'));
+        const slice = annual.times(new Rational(31n, 365n)).dividedBy(Rational.from(12));
+        expect(slice.times(Rational.from(12)).toScaledInteger(2, 'half-even').toString()).toBe('84.93');
+        expect(slice.toScaledInteger(2, 'half-even').toString()).toBe('7.08');
+        expect(r('1/3').toScaledInteger(4, 'half-even').toJSON()).toEqual({ value: 3333, scale: 4 });
+        expect(r('-5/2').toScaledInteger(0, 'half-even').toJSON()).toEqual({ value: -2, scale: 0 });
+        expect(r('-5/2').toScaledInteger(0, 'half-up').toJSON()).toEqual({ value: -3, scale: 0 });
+        expect(() => r('1/3').toScaledInteger(2, 'unnecessary')).toThrow('rounding necessary');
+        expect(r('1/8').toScaledInteger(3, 'unnecessary').toJSON()).toEqual({ value: 125, scale: 3 });
+        expect(r(`${2n ** 60n}/3`).toBigScaledInteger(1, 'floor').toString()).toBe('384307168202282325.3');
+        expect(() => r(`${2n ** 60n}/3`).toScaledInteger(1, 'floor')).toThrow('conversion overflow');
+    });
+
+    it('expands continued fractions', () => {
+        expect(r('415/93').continuedFraction()).toEqual([4n, 2n, 6n, 7n]);
+        expect(r('-415/93').continuedFraction()).toEqual([-5n, 1n, 1n, 6n, 7n]);
+        expect(r('7').continuedFraction()).toEqual([7n]);
+        expect(Rational.fromContinuedFraction([4n, 2n, 6n, 7n]).toString()).toBe('415/93');
+        expect(Rational.fromContinuedFraction([-5n, 1n, 1n, 6n, 7n]).toString()).toBe('-415/93');
+        expect(() => Rational.fromContinuedFraction([])).toThrow(InvalidArgumentError);
+
+        const pi = r('3.14159265358979');
+        expect(pi.approximate(10n).toString()).toBe('22/7');
+        expect(pi.approximate(200n).toString()).toBe('355/113');
+        expect(pi.approximate(1n).toString()).toBe('3');
+        expect(r('-0.333').approximate(10n).toString()).toBe('-1/3');
+        expect(r('1/3').approximate(100n).toString()).toBe('1/3');
+        // A semiconvergent can be closer than the last convergent
+        expect(r('0.7').approximate(7n).toString()).toBe('5/7');
+        expect(() => pi.approximate(0n)).toThrow(InvalidArgumentError);
+    });
+
+    it('detects repeating decimals', () => {
+        expect(r('1/3').toDecimalString()).toBe('0.(3)');
+        expect(r('1/6').toDecimalString()).toBe('0.1(6)');
+        expect(r('-22/7').toDecimalString()).toBe('-3.(142857)');
+        expect(r('1/8').toDecimalString()).toBe('0.125');
+        expect(r('12').toDecimalString()).toBe('12');
+        expect(r('1/12').toDecimalString()).toBe('0.08(3)');
+        expect(r('1/97').toDecimalString(10)).toBe('0.0103092783...');
+        expect(r('1/7').toDecimalString(5)).toBe('0.14285...');
+        expect(r('1/7').toDecimalString(6)).toBe('0.(142857)');
+        for (const str of ['0.(3)', '0.1(6)', '-3.(142857)', '0.125', '0.08(3)']) {
+            expect(r(str).toDecimalString()).toBe(str);
+        }
+    });
+}
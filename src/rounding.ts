@@ -0,0 +1,110 @@
+import { DivisionByZeroError, RoundingNecessaryError } from './errors.js';
+
+export type RoundingMode =
+    | 'half-even'
+    | 'half-up'
+    | 'half-down'
+    | 'ceiling'
+    | 'floor'
+    | 'toward-zero'
+    | 'away-from-zero'
+    | 'unnecessary';
+
+export const ROUNDING_MODES: readonly RoundingMode[] = [
+    'half-even',
+    'half-up',
+    'half-down',
+    'ceiling',
+    'floor',
+    'toward-zero',
+    'away-from-zero',
+    'unnecessary',
+];
+
+const abs = (x: bigint): bigint => (x < 0n ? -x : x);
+
+// Whether a quotient truncated toward zero should move one unit away from
+// zero. `half` compares the discarded remainder with half the divisor and
+// `odd` tells whether the truncated quotient is odd. Only called when the
+// remainder is non-zero
+export const roundsAwayFromZero = (mode: RoundingMode, negative: boolean, half: -1 | 0 | 1, odd: boolean): boolean => {
+    switch (mode) {
+        case 'unnecessary':
+            throw new RoundingNecessaryError();
+        case 'toward-zero':
+            return false;
+        case 'away-from-zero':
+            return true;
+        case 'ceiling':
+            return !negative;
+        case 'floor':
+            return negative;
+        default:
+            if (half !== 0) {
+                return half > 0;
+            }
+            return mode === 'half-up' || (mode === 'half-even' && odd);
+    }
+};
+
+// Divides `n` by `d` and rounds the quotient to an integer. The "half" modes
+// round ties up (away from zero), down (toward zero) or to the even neighbour.
+// Returns the rounded quotient and whether any non-zero digits were discarded.
+export const divideRounded = (n: bigint, d: bigint, mode: RoundingMode): [bigint, boolean] => {
+    if (d === 0n) {
+        throw new DivisionByZeroError();
+    }
+    const q = n / d;
+    const r = n % d;
+    if (r === 0n) {
+        return [q, false];
+    }
+    const negative = n < 0n !== d < 0n;
+    const twice = abs(r) * 2n;
+    const divisor = abs(d);
+    const half = twice === divisor ? 0 : twice > divisor ? 1 : -1;
+    const increment = roundsAwayFromZero(mode, negative, half, q % 2n !== 0n);
+    return [increment ? q + (negative ? -1n : 1n) : q, true];
+};
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    it('rounds quotients', () => {
+        // prettier-ignore
+        const table: [bigint, Record<Exclude<RoundingMode, 'unnecessary'>, bigint>][] = [
+            [ 55n, { 'half-even':  6n, 'half-up':  6n, 'half-down':  5n, 'ceiling':  6n, 'floor':  5n, 'toward-zero':  5n, 'away-from-zero':  6n }],
+            [ 25n, { 'half-even':  2n, 'half-up':  3n, 'half-down':  2n, 'ceiling':  3n, 'floor':  2n, 'toward-zero':  2n, 'away-from-zero':  3n }],
+            [ 16n, { 'half-even':  2n, 'half-up':  2n, 'half-down':  2n, 'ceiling':  2n, 'floor':  1n, 'toward-zero':  1n, 'away-from-zero':  2n }],
+            [ 11n, { 'half-even':  1n, 'half-up':  1n, 'half-down':  1n, 'ceiling':  2n, 'floor':  1n, 'toward-zero':  1n, 'away-from-zero':  2n }],
+            [-11n, { 'half-even': -1n, 'half-up': -1n, 'half-down': -1n, 'ceiling': -1n, 'floor': -2n, 'toward-zero': -1n, 'away-from-zero': -2n }],
+            [-16n, { 'half-even': -2n, 'half-up': -2n, 'half-down': -2n, 'ceiling': -1n, 'floor': -2n, 'toward-zero': -1n, 'away-from-zero': -2n }],
+            [-25n, { 'half-even': -2n, 'half-up': -3n, 'half-down': -2n, 'ceiling': -2n, 'floor': -3n, 'toward-zero': -2n, 'away-from-zero': -3n }],
+            [-55n, { 'half-even': -6n, 'half-up': -6n, 'half-down': -5n, 'ceiling': -5n, 'floor': -6n, 'toward-zero': -5n, 'away-from-zero': -6n }],
+        ];
+
+        for (const [n, expected] of table) {
+            for (const [mode, answer] of Object.entries(expected)) {
+                expect(divideRounded(n, 10n, mode as RoundingMode)).toEqual([answer, true]);
+                expect(divideRounded(-n, -10n, mode as RoundingMode)).toEqual([answer, true]);
+            }
+        }
+    });
+
+    it('exact quotients are never rounded', () => {
+        for (const mode of ROUNDING_MODES) {
+            expect(divideRounded(30n, 10n, mode)).toEqual([3n, false]);
+            expect(divideRounded(-30n, 10n, mode)).toEqual([-3n, false]);
+            expect(divideRounded(0n, 10n, mode)).toEqual([0n, false]);
+        }
+    });
+
+    it('rejects inexact quotients when rounding is unnecessary', () => {
+        expect(() => divideRounded(31n, 10n, 'unnecessary')).toThrow(RoundingNecessaryError);
+    });
+
+    it('rejects division by zero', () => {
+        expect(() => divideRounded(1n, 0n, 'half-even')).toThrow(DivisionByZeroError);
+    });
+}
@@ -0,0 +1,600 @@
+import { BigScaledInteger } from './big-scaled-integer.js';
+import { InvalidArgumentError, OverflowError, ScaleError, assertScale } from './errors.js';
+import { divideRounded, roundsAwayFromZero, type RoundingMode } from './rounding.js';
+import { ScaledInteger } from './scaled-integer.js';
+import { toSafeInteger } from './util.js';
+
+// `float64` holds safe integers only and keeps arithmetic on plain numbers,
+// `bigint64` holds the full signed 64-bit range. Operations on a `float64`
+// array whose results leave the safe range return a `bigint64` array instead
+export type ScaledIntegerArrayKind = 'float64' | 'bigint64';
+
+export type UnitArray = Float64Array | BigInt64Array;
+
+export interface ScaledIntegerArrayOptions {
+    kind?: ScaledIntegerArrayKind;
+    rounding?: RoundingMode;
+}
+
+type Operand = ScaledInteger | ScaledIntegerArray;
+
+const INT64_MAX = 2n ** 63n - 1n;
+const INT64_MIN = -(2n ** 63n);
+
+// Largest power of ten that is still a safe integer
+const MAX_SAFE_POW10_EXPONENT = 15;
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+const isSafeBigInt = (value: bigint): boolean =>
+    value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER);
+
+const kindOf = (units: UnitArray): ScaledIntegerArrayKind => (units instanceof Float64Array ? 'float64' : 'bigint64');
+
+const allocate = (kind: ScaledIntegerArrayKind, length: number): UnitArray =>
+    kind === 'float64' ? new Float64Array(length) : new BigInt64Array(length);
+
+// Rounds `p / d` for a safe integer `p` and a power of ten `d` without
+// leaving plain numbers
+const divideRoundedNumber = (p: number, d: number, rounding: RoundingMode): number => {
+    const r = p % d;
+    if (r === 0) {
+        return p / d + 0;
+    }
+    const q = (p - r) / d;
+    const twice = Math.abs(r) * 2;
+    const half = twice === d ? 0 : twice > d ? 1 : -1;
+    const negative = p < 0;
+    return roundsAwayFromZero(rounding, negative, half, q % 2 !== 0) ? q + (negative ? -1 : 1) : q + 0;
+};
+
+// A column of decimals sharing one scale, stored as unscaled integers in a
+// typed array. Element-wise operations run over the typed array directly
+// instead of allocating a `ScaledInteger` per value, and always return a new
+// array so that an overflow part way through never leaves one half-updated
+export class ScaledIntegerArray {
+    readonly scale: number;
+    private readonly _units: UnitArray;
+
+    // Wraps `units` without copying, so writes to either are seen by both.
+    // Every element of a `Float64Array` must be a safe integer
+    constructor(units: UnitArray, scale: number = 0) {
+        assertScale(scale);
+        if (units instanceof Float64Array) {
+            for (let i = 0; i < units.length; ++i) {
+                if (!Number.isInteger(units[i])) {
+                    throw new InvalidArgumentError('units', 'units must be integers');
+                }
+                if (!Number.isSafeInteger(units[i])) {
+                    throw new OverflowError('construction', [units[i]!], 'unsafe integer value');
+                }
+            }
+        } else if (!(units instanceof BigInt64Array)) {
+            throw TypeError('units must be a Float64Array or a BigInt64Array');
+        }
+        this._units = units;
+        this.scale = scale;
+    }
+
+    static zeros(length: number, scale: number = 0, kind: ScaledIntegerArrayKind = 'float64'): ScaledIntegerArray {
+        return new ScaledIntegerArray(allocate(kind, length), scale);
+    }
+
+    // The scale defaults to the largest among `values`. Values with more
+    // fraction digits than `scale` are only accepted when a rounding mode is
+    // given. Without a `kind`, the array is `float64` unless a value leaves
+    // the safe integer range
+    static from(
+        values: Iterable<ScaledInteger | BigScaledInteger>,
+        scale?: number,
+        options: ScaledIntegerArrayOptions = {},
+    ): ScaledIntegerArray {
+        const { rounding = 'unnecessary' } = options;
+        const items = [...values];
+        const target = scale ?? items.reduce((max, item) => Math.max(max, item.scale), 0);
+        assertScale(target);
+        const exact = items.map(item => BigScaledInteger.from(item).toBigInt(target, rounding));
+        const kind = options.kind ?? (exact.every(isSafeBigInt) ? 'float64' : 'bigint64');
+        const units = allocate(kind, items.length);
+        for (let i = 0; i < items.length; ++i) {
+            const item = items[i]!;
+            const value = exact[i]!;
+            if (units instanceof Float64Array) {
+                units[i] = toSafeInteger(value, 'conversion', [item.clone()]);
+            } else {
+                if (value > INT64_MAX || value < INT64_MIN) {
+                    throw new OverflowError('conversion', [item.clone()], 'value does not fit a 64-bit integer');
+                }
+                units[i] = value;
+            }
+        }
+        return new ScaledIntegerArray(units, target);
+    }
+
+    get kind(): ScaledIntegerArrayKind {
+        return kindOf(this._units);
+    }
+
+    get length(): number {
+        return this._units.length;
+    }
+
+    // The backing typed array, not a copy
+    get units(): UnitArray {
+        return this._units;
+    }
+
+    private _assertIndex(index: number) {
+        if (!Number.isInteger(index) || index < 0 || index >= this._units.length) {
+            throw RangeError('index out of range');
+        }
+    }
+
+    get(index: number): ScaledInteger {
+        this._assertIndex(index);
+        const unit = this._units[index]!;
+        if (typeof unit === 'number') {
+            return new ScaledInteger(unit, this.scale);
+        }
+        const value = toSafeInteger(unit, 'conversion', [new BigScaledInteger(unit, this.scale)]);
+        return new ScaledInteger(value, this.scale);
+    }
+
+    getBig(index: number): BigScaledInteger {
+        this._assertIndex(index);
+        return new BigScaledInteger(BigInt(this._units[index]!), this.scale);
+    }
+
+    set(index: number, value: ScaledInteger | BigScaledInteger, rounding: RoundingMode = 'unnecessary'): this {
+        this._assertIndex(index);
+        this._store(this._units, index, BigScaledInteger.from(value).toBigInt(this.scale, rounding), 'conversion');
+        return this;
+    }
+
+    toArray(): ScaledInteger[] {
+        return Array.from({ length: this.length }, (_, i) => this.get(i));
+    }
+
+    *[Symbol.iterator](): IterableIterator<ScaledInteger> {
+        for (let i = 0; i < this.length; ++i) {
+            yield this.get(i);
+        }
+    }
+
+    clone(): ScaledIntegerArray {
+        return new ScaledIntegerArray(this._units.slice(), this.scale);
+    }
+
+    // Unscaled value of a scalar operand, or the units of an array operand,
+    // at this array's scale. Undefined when they do not fit a `float64` array
+    private _align(operand: Operand, operation: string): number | bigint | UnitArray | undefined {
+        if (operand.scale > this.scale) {
+            throw new ScaleError(`operand scale ${operand.scale} exceeds array scale ${this.scale}`);
+        }
+        const float = this._units instanceof Float64Array;
+        if (operand instanceof ScaledInteger) {
+            const value = operand.toBigInt(this.scale);
+            return !float ? value : isSafeBigInt(value) ? Number(value) : undefined;
+        }
+        if (operand.length !== this.length) {
+            throw new InvalidArgumentError('operand', 'arrays must have the same length');
+        }
+        if (operand.scale === this.scale && operand.kind === this.kind) {
+            return operand._units;
+        }
+        const factor = pow10(this.scale - operand.scale);
+        const units = allocate(this.kind, this.length);
+        for (let i = 0; i < units.length; ++i) {
+            const value = BigInt(operand._units[i]!) * factor;
+            if (float && !isSafeBigInt(value)) return;
+            this._store(units, i, value, operation);
+        }
+        return units;
+    }
+
+    // A `bigint64` copy, which operations whose results leave the safe range
+    // are computed again in
+    private _widened(): ScaledIntegerArray {
+        return new ScaledIntegerArray(BigInt64Array.from(this._units as Float64Array, unit => BigInt(unit)), this.scale);
+    }
+
+    // Writes an exact result at this array's scale into `units`, or throws
+    // when it does not fit the element type
+    private _store(units: UnitArray, index: number, value: bigint, operation: string) {
+        if (units instanceof Float64Array) {
+            units[index] = toSafeInteger(value, operation, [new BigScaledInteger(value, this.scale)]);
+            return;
+        }
+        if (value > INT64_MAX || value < INT64_MIN) {
+            throw new OverflowError(operation, [new BigScaledInteger(value, this.scale)]);
+        }
+        units[index] = value;
+    }
+
+    private _addUnits(operand: Operand, sign: 1 | -1, operation: string): ScaledIntegerArray {
+        const other = this._align(operand, operation);
+        if (other === undefined) {
+            return this._widened()._addUnits(operand, sign, operation);
+        }
+        const a = this._units;
+        const { length } = a;
+        if (a instanceof Float64Array) {
+            const out = new Float64Array(length);
+            for (let i = 0; i < length; ++i) {
+                const b = typeof other === 'number' ? other : (other as Float64Array)[i]!;
+                const r = a[i]! + sign * b;
+                if (!Number.isSafeInteger(r)) {
+                    return this._widened()._addUnits(operand, sign, operation);
+                }
+                out[i] = r + 0;
+            }
+            return new ScaledIntegerArray(out, this.scale);
+        }
+        const out = new BigInt64Array(length);
+        const bigSign = BigInt(sign);
+        for (let i = 0; i < length; ++i) {
+            const b = typeof other === 'bigint' ? other : (other as BigInt64Array)[i]!;
+            this._store(out, i, a[i]! + bigSign * b, operation);
+        }
+        return new ScaledIntegerArray(out, this.scale);
+    }
+
+    plus(operand: Operand): ScaledIntegerArray {
+        return this._addUnits(operand, 1, 'addition');
+    }
+
+    minus(operand: Operand): ScaledIntegerArray {
+        return this._addUnits(operand, -1, 'subtraction');
+    }
+
+    // Unlike the other operations, the operand may have any scale: each
+    // product is rounded back to this array's scale
+    times(operand: Operand, rounding: RoundingMode = 'half-even'): ScaledIntegerArray {
+        const scalar = operand instanceof ScaledInteger;
+        if (!scalar && operand.length !== this.length) {
+            throw new InvalidArgumentError('operand', 'arrays must have the same length');
+        }
+        const scalarValue = scalar ? operand.value : 0;
+        const otherUnits = scalar ? undefined : operand._units;
+        const shift = operand.scale;
+        const a = this._units;
+        const { length } = a;
+        const divisor = pow10(shift);
+        const exact = (out: UnitArray, i: number, x: bigint, y: bigint) =>
+            this._store(out, i, divideRounded(x * y, divisor, rounding)[0], 'multiplication');
+
+        if (a instanceof Float64Array) {
+            const out = new Float64Array(length);
+            const d = 10 ** shift;
+            for (let i = 0; i < length; ++i) {
+                const b = otherUnits === undefined ? scalarValue : otherUnits[i]!;
+                const p = typeof b === 'number' ? a[i]! * b : NaN;
+                if (Number.isSafeInteger(p) && shift <= MAX_SAFE_POW10_EXPONENT) {
+                    out[i] = divideRoundedNumber(p, d, rounding);
+                    continue;
+                }
+                const [q] = divideRounded(BigInt(a[i]!) * BigInt(b), divisor, rounding);
+                if (!isSafeBigInt(q)) {
+                    return this._widened().times(operand, rounding);
+                }
+                out[i] = Number(q);
+            }
+            return new ScaledIntegerArray(out, this.scale);
+        }
+        const out = new BigInt64Array(length);
+        const scalarBig = BigInt(scalarValue);
+        for (let i = 0; i < length; ++i) {
+            exact(out, i, a[i]!, otherUnits === undefined ? scalarBig : BigInt(otherUnits[i]!));
+        }
+        return new ScaledIntegerArray(out, this.scale);
+    }
+
+    negated(): ScaledIntegerArray {
+        return ScaledIntegerArray.zeros(this.length, this.scale, this.kind).minus(this);
+    }
+
+    // Rescales every element, rounding when the scale decreases
+    withScale(scale: number, rounding: RoundingMode = 'half-even'): ScaledIntegerArray {
+        assertScale(scale);
+        if (scale >= this.scale) {
+            return ScaledIntegerArray.zeros(this.length, scale, this.kind).plus(this);
+        }
+        const divisor = pow10(this.scale - scale);
+        const target = ScaledIntegerArray.zeros(this.length, scale, this.kind);
+        for (let i = 0; i < this.length; ++i) {
+            target._store(target._units, i, divideRounded(BigInt(this._units[i]!), divisor, rounding)[0], 'rescale');
+        }
+        return target;
+    }
+
+    // Exact total, without the safe integer limit
+    sumBig(): BigScaledInteger {
+        const a = this._units;
+        if (a instanceof BigInt64Array) {
+            let total = 0n;
+            for (let i = 0; i < a.length; ++i) total += a[i]!;
+            return new BigScaledInteger(total, this.scale);
+        }
+        // Plain numbers are exact for as long as the running total is safe
+        let total = 0;
+        let i = 0;
+        for (; i < a.length; ++i) {
+            const next = total + a[i]!;
+            if (!Number.isSafeInteger(next)) break;
+            total = next;
+        }
+        let big = BigInt(total);
+        for (; i < a.length; ++i) big += BigInt(a[i]!);
+        return new BigScaledInteger(big, this.scale);
+    }
+
+    // Zero when the array is empty
+    sum(): ScaledInteger {
+        const total = this.sumBig();
+        return new ScaledInteger(toSafeInteger(total.toBigInt(), 'sum', [total]), this.scale);
+    }
+
+    private _extremeIndex(sign: 1 | -1): number {
+        const a = this._units;
+        if (a.length === 0) throw new InvalidArgumentError('values', 'at least one value is required');
+        let index = 0;
+        for (let i = 1; i < a.length; ++i) {
+            if (sign > 0 ? a[i]! > a[index]! : a[i]! < a[index]!) index = i;
+        }
+        return index;
+    }
+
+    min(): ScaledInteger {
+        return this.get(this._extremeIndex(-1));
+    }
+
+    max(): ScaledInteger {
+        return this.get(this._extremeIndex(1));
+    }
+
+    // Sorts in place in ascending order, like `Array.prototype.sort`
+    sort(): this {
+        this._units.sort();
+        return this;
+    }
+
+    // -1, 0 or 1 for each element, as in `ScaledInteger.compare`. Scalars may
+    // have any scale, arrays at most this array's scale
+    compare(operand: Operand): Int8Array {
+        const a = this._units;
+        const out = new Int8Array(a.length);
+        if (operand instanceof ScaledInteger && operand.scale > this.scale) {
+            // Compare against the floor of the operand at this scale, which
+            // is only equal when nothing was dropped
+            const [floor, inexact] = divideRounded(
+                BigInt(operand.value),
+                pow10(operand.scale - this.scale),
+                'floor',
+            );
+            if (a instanceof Float64Array && !isSafeBigInt(floor)) {
+                return this._widened().compare(operand);
+            }
+            const b = a instanceof Float64Array ? Number(floor) : floor;
+            const onEqual = inexact ? -1 : 0;
+            for (let i = 0; i < a.length; ++i) {
+                out[i] = a[i]! < b ? -1 : a[i]! > b ? 1 : onEqual;
+            }
+            return out;
+        }
+        const other = this._align(operand, 'comparison');
+        if (other === undefined) {
+            return this._widened().compare(operand);
+        }
+        for (let i = 0; i < a.length; ++i) {
+            const b = typeof other === 'object' ? other[i]! : other;
+            out[i] = a[i]! < b ? -1 : a[i]! > b ? 1 : 0;
+        }
+        return out;
+    }
+
+    // Masks hold 1 where the comparison holds and 0 elsewhere
+    private _mask(operand: Operand, test: (comparison: number) => boolean): Uint8Array {
+        const comparisons = this.compare(operand);
+        const out = new Uint8Array(comparisons.length);
+        for (let i = 0; i < comparisons.length; ++i) {
+            out[i] = test(comparisons[i]!) ? 1 : 0;
+        }
+        return out;
+    }
+
+    equal(operand: Operand): Uint8Array {
+        return this._mask(operand, c => c === 0);
+    }
+
+    lessThan(operand: Operand): Uint8Array {
+        return this._mask(operand, c => c < 0);
+    }
+
+    lessThanOrEqual(operand: Operand): Uint8Array {
+        return this._mask(operand, c => c <= 0);
+    }
+
+    greaterThan(operand: Operand): Uint8Array {
+        return this._mask(operand, c => c > 0);
+    }
+
+    greaterThanOrEqual(operand: Operand): Uint8Array {
+        return this._mask(operand, c => c >= 0);
+    }
+
+    // Elements where `mask` is non-zero, e.g. `prices.filter(prices.greaterThan(limit))`
+    filter(mask: Uint8Array): ScaledIntegerArray {
+        if (mask.length !== this.length) {
+            throw new InvalidArgumentError('mask', 'mask must have the same length as the array');
+        }
+        const units = allocate(this.kind, mask.reduce((count, bit) => count + (bit ? 1 : 0), 0));
+        let j = 0;
+        for (let i = 0; i < mask.length; ++i) {
+            if (mask[i]) units[j++] = this._units[i]!;
+        }
+        return new ScaledIntegerArray(units, this.scale);
+    }
+
+    toJSON(): any {
+        return { values: Array.from(this._units, String), scale: this.scale };
+    }
+}
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const d = ScaledInteger.parse;
+    const strings = (array: ScaledIntegerArray) => array.toJSON().values;
+
+    it('converts to and from scaled integers', () => {
+        const array = ScaledIntegerArray.from([d('1.5'), d('-2.25'), d('3')]);
+        expect(array.scale).toBe(2);
+        expect(array.kind).toBe('float64');
+        expect(array.length).toBe(3);
+        expect([...array.units]).toEqual([150, -225, 300]);
+        expect(array.get(1).toJSON()).toEqual({ value: -225, scale: 2 });
+        expect(array.toArray().map(String)).toEqual(['1.50', '-2.25', '3']);
+        expect([...array].length).toBe(3);
+        expect(() => array.get(3)).toThrow(RangeError);
+
+        const units = new Float64Array([1999, 5]);
+        const view = new ScaledIntegerArray(units, 2);
+        units[1] = 7;
+        expect(view.get(1).toString()).toBe('0.07');
+        view.set(0, d('0.5'));
+        expect(units[0]).toBe(50);
+        expect(() => view.set(0, d('0.001'))).toThrow('rounding necessary');
+        expect(() => new ScaledIntegerArray(new Float64Array([0.5]))).toThrow(InvalidArgumentError);
+        expect(() => new ScaledIntegerArray(new Float64Array([2 ** 53]))).toThrow('unsafe integer value');
+
+        expect(ScaledIntegerArray.from([d('0.125')], 2, { rounding: 'half-up' }).get(0).toString()).toBe('0.13');
+        expect(() => ScaledIntegerArray.from([d('0.125')], 2)).toThrow('rounding necessary');
+        expect(ScaledIntegerArray.from([]).length).toBe(0);
+    });
+
+    it('holds 64-bit values', () => {
+        const big = new BigScaledInteger(2n ** 62n, 2);
+        const array = ScaledIntegerArray.from([big, d('1')], undefined, { kind: 'bigint64' });
+        expect(array.kind).toBe('bigint64');
+        expect(array.getBig(0).toJSON()).toEqual(big.toJSON());
+        expect(() => array.get(0)).toThrow(OverflowError);
+        expect(array.get(1).toJSON()).toEqual({ value: 100, scale: 2 });
+        expect(ScaledIntegerArray.from([big]).kind).toBe('bigint64');
+        expect(ScaledIntegerArray.from([d('1')]).kind).toBe('float64');
+        expect(() => ScaledIntegerArray.from([big], 2, { kind: 'float64' })).toThrow(OverflowError);
+        expect(() => ScaledIntegerArray.from([new BigScaledInteger(2n ** 63n)], 0, { kind: 'bigint64' })).toThrow(
+            'value does not fit a 64-bit integer',
+        );
+        expect(() => array.plus(array)).toThrow(OverflowError);
+        expect(array.sumBig().toJSON()).toEqual({ value: String(2n ** 62n + 100n), scale: 2 });
+    });
+
+    it('adds and subtracts element-wise', () => {
+        const a = ScaledIntegerArray.from([d('1.25'), d('-0.5'), d('10')]);
+        const b = ScaledIntegerArray.from([d('0.75'), d('0.5'), d('0.01')]);
+        expect(strings(a.plus(b))).toEqual(['200', '0', '1001']);
+        expect(strings(a.minus(b))).toEqual(['50', '-100', '999']);
+        expect(strings(a.plus(d('0.1')))).toEqual(['135', '-40', '1010']);
+        expect(strings(a.plus(ScaledIntegerArray.from([d('1'), d('2'), d('3')])))).toEqual(['225', '150', '1300']);
+        expect(strings(a.negated())).toEqual(['-125', '50', '-1000']);
+        expect(strings(a)).toEqual(['125', '-50', '1000']);
+
+        const big = ScaledIntegerArray.from([d('1.25'), d('-0.5'), d('10')], 2, { kind: 'bigint64' });
+        expect(strings(big.plus(b))).toEqual(['200', '0', '1001']);
+        expect(strings(a.minus(big))).toEqual(['0', '0', '0']);
+
+        expect(() => a.plus(d('0.001'))).toThrow(ScaleError);
+        expect(() => a.plus(ScaledIntegerArray.from([d('1')]))).toThrow(InvalidArgumentError);
+        expect(() => a.times(ScaledIntegerArray.from([d('1')]))).toThrow('arrays must have the same length');
+
+        // Results beyond the safe range promote to bigint64
+        const max = ScaledIntegerArray.from([new ScaledInteger(Number.MAX_SAFE_INTEGER)]);
+        const promoted = max.plus(d('1'));
+        expect(promoted.kind).toBe('bigint64');
+        expect(strings(promoted)).toEqual([String(2 ** 53)]);
+        expect(strings(max.withScale(2))).toEqual([String(BigInt(Number.MAX_SAFE_INTEGER) * 100n)]);
+        expect(strings(max.plus(ScaledIntegerArray.from([new BigScaledInteger(2n ** 60n)])))).toEqual([
+            String(2n ** 60n + BigInt(Number.MAX_SAFE_INTEGER)),
+        ]);
+        expect(max.minus(d('1')).kind).toBe('float64');
+        expect(strings(max.minus(d('1')))).toEqual([String(Number.MAX_SAFE_INTEGER - 1)]);
+        expect(() => max.withScale(4)).toThrow(OverflowError);
+    });
+
+    it('multiplies and rounds to the array scale', () => {
+        const prices = ScaledIntegerArray.from([d('19.99'), d('0.05'), d('-3.35')]);
+        expect(strings(prices.times(d('1.5')))).toEqual(['2998', '8', '-502']);
+        expect(strings(prices.times(d('1.5'), 'half-up'))).toEqual(['2999', '8', '-503']);
+        expect(strings(prices.times(d('3')))).toEqual(['5997', '15', '-1005']);
+        expect(strings(prices.times(d('0')))).toEqual(['0', '0', '0']);
+        expect(Object.is(prices.times(d('0')).units[2], -0)).toBe(false);
+        const rates = ScaledIntegerArray.from([d('0.0825'), d('2'), d('0.1')]);
+        expect(strings(prices.times(rates))).toEqual(['165', '10', '-34']);
+        expect(() => prices.times(d('1.5'), 'unnecessary')).toThrow('rounding necessary');
+
+        // Products beyond the safe range fall back to bigints
+        const large = ScaledIntegerArray.from([new ScaledInteger(2 ** 40, 4)]);
+        expect(strings(large.times(new ScaledInteger(2 ** 20, 6)))).toEqual(['1152921504607']);
+        expect(large.times(new ScaledInteger(2 ** 20)).kind).toBe('bigint64');
+        expect(strings(large.times(new ScaledInteger(2 ** 20)))).toEqual([String(2n ** 60n)]);
+        expect(() => large.times(new ScaledInteger(2 ** 30))).toThrow(OverflowError);
+        const big = ScaledIntegerArray.from([d('19.99')], 2, { kind: 'bigint64' });
+        expect(strings(big.times(d('1.5')))).toEqual(['2998']);
+    });
+
+    it('rescales', () => {
+        const a = ScaledIntegerArray.from([d('1.25'), d('-1.35')]);
+        expect(a.withScale(4).toJSON()).toEqual({ values: ['12500', '-13500'], scale: 4 });
+        expect(a.withScale(1).toJSON()).toEqual({ values: ['12', '-14'], scale: 1 });
+        expect(a.withScale(1, 'toward-zero').toJSON()).toEqual({ values: ['12', '-13'], scale: 1 });
+    });
+
+    it('aggregates', () => {
+        const a = ScaledIntegerArray.from([d('3.5'), d('-1'), d('10'), d('2.25')]);
+        expect(a.sum().toJSON()).toEqual({ value: 1475, scale: 2 });
+        expect(a.min().toString()).toBe('-1');
+        expect(a.max().toString()).toBe('10');
+        expect(ScaledIntegerArray.zeros(0, 2).sum().toJSON()).toEqual({ value: 0, scale: 2 });
+        expect(() => ScaledIntegerArray.zeros(0).min()).toThrow(InvalidArgumentError);
+
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER);
+        const negativeMax = new ScaledInteger(-Number.MAX_SAFE_INTEGER);
+        const wide = ScaledIntegerArray.from([max, max, negativeMax, negativeMax, d('1')]);
+        expect(wide.sum().toString()).toBe('1');
+        expect(ScaledIntegerArray.from([max, max]).sumBig().toString()).toBe(String(2n * 2n ** 53n - 2n));
+        expect(() => ScaledIntegerArray.from([max, max]).sum()).toThrow('sum overflow');
+
+        const sorted = a.clone().sort();
+        expect(strings(sorted)).toEqual(['-100', '225', '350', '1000']);
+        expect(strings(a)).toEqual(['350', '-100', '1000', '225']);
+        const big = ScaledIntegerArray.from([d('3'), d('-2'), d('1')], 0, { kind: 'bigint64' });
+        expect(strings(big.sort())).toEqual(['-2', '1', '3']);
+    });
+
+    it('builds comparison masks', () => {
+        const a = ScaledIntegerArray.from([d('0.5'), d('1'), d('1.5')]);
+        expect([...a.compare(d('1'))]).toEqual([-1, 0, 1]);
+        expect([...a.greaterThan(d('1'))]).toEqual([0, 0, 1]);
+        expect([...a.greaterThanOrEqual(d('1'))]).toEqual([0, 1, 1]);
+        expect([...a.lessThan(d('1'))]).toEqual([1, 0, 0]);
+        expect([...a.lessThanOrEqual(d('1'))]).toEqual([1, 1, 0]);
+        expect([...a.equal(d('1'))]).toEqual([0, 1, 0]);
+
+        // Scalars with more fraction digits compare exactly
+        expect([...a.compare(d('1.001'))]).toEqual([-1, -1, 1]);
+        expect([...a.compare(d('-0.999'))]).toEqual([1, 1, 1]);
+        expect([...a.compare(d('1.000'))]).toEqual([-1, 0, 1]);
+
+        const b = ScaledIntegerArray.from([d('1'), d('1'), d('1')], 0, { kind: 'bigint64' });
+        expect([...a.compare(b)]).toEqual([-1, 0, 1]);
+        expect([...b.compare(ScaledIntegerArray.from([d('2'), d('1'), d('0')]))]).toEqual([-1, 0, 1]);
+        expect(() => b.compare(a)).toThrow(ScaleError);
+        const huge = ScaledIntegerArray.from([new BigScaledInteger(2n ** 60n)]);
+        expect([...ScaledIntegerArray.from([d('1')]).compare(huge)]).toEqual([-1]);
+
+        expect(strings(a.filter(a.greaterThan(d('0.75'))))).toEqual(['10', '15']);
+        expect(() => a.filter(new Uint8Array(2))).toThrow('mask must have the same length as the array');
+        expect(() => a.filter(new Uint8Array(2))).toThrow(InvalidArgumentError);
+    });
+}
@@ -1,54 +1,206 @@
-import { trimEnd, trimStart } from './util.js';
+import { allocateUnits, type AllocateOptions } from './allocate.js';
+import {
+    DivisionByZeroError,
+    InvalidArgumentError,
+    OverflowError,
+    ParseError,
+    RoundingNecessaryError,
+    ScaleError,
+    ScaledIntegerError,
+    assertScale,
+    checkScale,
+    type Result,
+} from './errors.js';
+import { decimalExponent, formatExponential, matchExponential, trimFractionZeros } from './exponential.js';
+import { parseExpression, type ExpressionNode } from './expression.js';
+import { decimalFromNumber, type FromNumberOptions } from './from-number.js';
+import { formatDecimal, localeFormatOptions, type FormatOptions } from './format.js';
+import { parseLocaleDecimal, type LocaleParseOptions } from './locale-parse.js';
+import { powerRounded, rootRounded } from './power.js';
+import { divideRounded, type RoundingMode } from './rounding.js';
+import {
+    LAX_DECIMAL_REGEX,
+    STRICT_DECIMAL_REGEX,
+    invalidDecimalPosition,
+    matchDecimal,
+    toSafeInteger,
+} from './util.js';
+
+// How `quotient` and `remainder` round the integer quotient. Truncated division
+// gives the remainder the sign of the dividend, floored division the sign of the
+// divisor, and Euclidean division a remainder that is never negative.
+export type DivisionMode = 'truncate' | 'floor' | 'euclidean';
+
+// Implemented by `DecimalContext`. Applies a rounding and overflow policy to
+// the non-mutating arithmetic methods
+export interface ArithmeticContext {
+    add(a: ScaledInteger, b: ScaledInteger): ScaledInteger;
+    subtract(a: ScaledInteger, b: ScaledInteger): ScaledInteger;
+    multiply(a: ScaledInteger, b: ScaledInteger): ScaledInteger;
+    // Used by `evaluate` and by `dividedBy` without a scale, which otherwise
+    // require exact quotients
+    divide?(a: ScaledInteger, b: ScaledInteger): ScaledInteger;
+}
+
+export type ExpressionVariables = Readonly<Record<string, ScaledInteger>>;
 
-const STRICT_DECIMAL_REGEX = /^(?<sign>[-+]?)(?<major>[0-9]+)(\.(?<minor>[0-9]+))?$/;
-const LAX_DECIMAL_REGEX = /^(?<sign>[-+]?)(?<major>[0-9]*)(\.(?<minor>[0-9]*))?$/;
+const MAX_SAFE_INTEGER = BigInt(Number.MAX_SAFE_INTEGER);
+
+// Smallest scale at which `n / d` is exact, or `undefined` when the quotient
+// does not terminate
+const exactQuotientScale = (n: bigint, d: bigint): number | undefined => {
+    let [x, y] = [n < 0n ? -n : n, d < 0n ? -d : d];
+    while (y !== 0n) {
+        [x, y] = [y, x % y];
+    }
+    let denominator = (d < 0n ? -d : d) / x;
+    let twos = 0;
+    let fives = 0;
+    for (; denominator % 2n === 0n; denominator /= 2n) ++twos;
+    for (; denominator % 5n === 0n; denominator /= 5n) ++fives;
+    return denominator === 1n ? Math.max(twos, fives) : undefined;
+};
+
+// Arithmetic and comparisons only take `ScaledInteger` operands, and throw
+// `InvalidArgumentError` for anything else
+const assertOperands = (a: ScaledInteger, b: ScaledInteger) => {
+    if (!(a instanceof ScaledInteger) || !(b instanceof ScaledInteger)) {
+        throw new InvalidArgumentError(
+            'operand',
+            'operands must be ScaledInteger, use BigScaledInteger.from to mix with BigScaledInteger',
+        );
+    }
+};
 
+// A decimal held as a safe integer number of units of `10^-scale`. Operands
+// must be `ScaledInteger` too, otherwise `InvalidArgumentError` is thrown; to
+// mix with `BigScaledInteger`, use the `BigScaledInteger` methods, which
+// accept both and return a `BigScaledInteger`
 export class ScaledInteger {
+    private static _context: ArithmeticContext | undefined;
+
     private _value: number;
     private _scale: number;
 
     constructor(value: number, scale: number = 0) {
-        if (!Number.isSafeInteger(value)) throw Error('unsafe integer value');
-        if (!Number.isSafeInteger(scale)) throw Error('unsafe integer value');
-        if (scale < 0) throw Error('scale must be a positive integer');
+        if (!Number.isInteger(value)) throw new InvalidArgumentError('value', 'value must be an integer');
+        if (!Number.isSafeInteger(value)) throw new OverflowError('construction', [value], 'unsafe integer value');
+        assertScale(scale);
         this._value = value;
         this._scale = scale;
     }
 
+    // Makes `context` the default for `plus`, `minus`, `times` and `dividedBy`
+    // while `fn` runs. The scope is synchronous: it ends when `fn` returns, so
+    // code after an `await` would run without it. Async functions therefore
+    // throw a `TypeError` instead of silently losing the context
+    static runInContext<T>(context: ArithmeticContext, fn: () => T): T {
+        const previous = ScaledInteger._context;
+        ScaledInteger._context = context;
+        try {
+            const result = fn();
+            if (typeof (result as { then?: unknown } | undefined)?.then === 'function') {
+                throw TypeError('runInContext does not support async functions');
+            }
+            return result;
+        } finally {
+            ScaledInteger._context = previous;
+        }
+    }
+
     static deserialize(input: { value: number; scale: number }): ScaledInteger {
         const { value, scale } = input;
         return new ScaledInteger(value, scale);
     }
 
     static parse(str: string): ScaledInteger {
-        const groups = str.match(STRICT_DECIMAL_REGEX)?.groups;
-        if (!groups) {
-            throw new Error('invalid decimal string');
+        const result = ScaledInteger.tryParse(str);
+        if (!result.ok) {
+            throw result.error;
+        }
+        return result.value;
+    }
+
+    // Useful for parsing user inputs
+    static parseLax(str: string): ScaledInteger {
+        const result = ScaledInteger.tryParseLax(str);
+        if (!result.ok) {
+            throw result.error;
         }
-        const sign = groups['sign']!;
-        const majorStr = trimStart(groups['major']!, '0') || '0';
-        const minorStr = trimEnd(groups['minor'] ?? '', '0') || '0';
+        return result.value;
+    }
+
+    // Non-throwing counterparts of `parse` and `parseLax`
+    static tryParse(str: string): Result<ScaledInteger, ParseError | OverflowError> {
+        const match = matchDecimal(str, STRICT_DECIMAL_REGEX);
+        if (!match) {
+            return { ok: false, error: new ParseError(str, invalidDecimalPosition(str, false)) };
+        }
+        const [sign, majorStr, minorStr] = match;
         const major = +majorStr;
         const minor = +minorStr;
         const scale = minor === 0 ? 0 : minorStr.length;
         const value = major * 10 ** scale + minor;
-        return new ScaledInteger(sign == '-' ? -value : value, scale);
+        if (!Number.isSafeInteger(value)) {
+            return { ok: false, error: new OverflowError('parsing', [str], 'unsafe integer value') };
+        }
+        return { ok: true, value: new ScaledInteger(sign == '-' ? -value : value, scale) };
     }
 
-    // Useful for parsing user inputs
-    static parseLax(str: string): ScaledInteger {
-        const groups = str.match(LAX_DECIMAL_REGEX)?.groups;
-        if (!groups) {
-            throw new Error('invalid decimal string');
+    static tryParseLax(str: string): Result<ScaledInteger, ParseError | OverflowError> {
+        const match = matchDecimal(str, LAX_DECIMAL_REGEX);
+        if (!match) {
+            return { ok: false, error: new ParseError(str, invalidDecimalPosition(str, true)) };
         }
-        const sign = groups['sign']!;
-        const majorStr = trimStart(groups['major']!, '0') || '0';
-        const minorStr = trimEnd(groups['minor'] ?? '', '0') || '0';
+        const [sign, majorStr, minorStr] = match;
         const major = +majorStr;
         const minor = +minorStr;
         const scale = minorStr.length;
         const value = major * 10 ** scale + minor;
-        return new ScaledInteger(sign == '-' ? -value : value, scale);
+        if (!Number.isSafeInteger(value)) {
+            return { ok: false, error: new OverflowError('parsing', [str], 'unsafe integer value') };
+        }
+        return { ok: true, value: new ScaledInteger(sign == '-' ? -value : value, scale) };
+    }
+
+    static fromNumber(x: number, options: FromNumberOptions = {}): ScaledInteger {
+        const [value, scale] = decimalFromNumber(x, options);
+        return new ScaledInteger(toSafeInteger(value, 'conversion', [x], 'unsafe integer value'), scale);
+    }
+
+    // `value` is in units of the given scale, e.g. cents for a scale of 2
+    static fromBigInt(value: bigint, scale: number = 0): ScaledInteger {
+        return new ScaledInteger(toSafeInteger(value, 'conversion', [value], 'unsafe integer value'), scale);
+    }
+
+    // Accepts everything `parse` does plus an exponent, as in `1.5e-7` or `2E+3`
+    static parseExponential(str: string): ScaledInteger {
+        const match = matchExponential(str);
+        if (!match) {
+            throw new ParseError(str, invalidDecimalPosition(str, false, true));
+        }
+        const [digits, scale] = trimFractionZeros(match[1], match[2]);
+        // Checked before any arithmetic, so huge exponents fail fast
+        if (digits.length - scale > 16) {
+            throw new OverflowError('parsing', [str], 'unsafe integer value');
+        }
+        const magnitude = scale < 0 ? BigInt(digits) * 10n ** BigInt(-scale) : BigInt(digits);
+        const value = toSafeInteger(magnitude, 'parsing', [str], 'unsafe integer value');
+        return new ScaledInteger(match[0] == '-' && value !== 0 ? -value : value, Math.max(scale, 0));
+    }
+
+    // Parses formatted user input such as `1.234,56`, `(12.00)` or `$ 5`. Failures
+    // are returned rather than thrown, with the position of the offending character.
+    // Amounts beyond the safe integer range fail with an `OverflowError`
+    static parseLocale(
+        str: string,
+        options: LocaleParseOptions = {},
+    ): Result<ScaledInteger, ParseError | OverflowError> {
+        const result = parseLocaleDecimal(str, options);
+        if (!result.ok) {
+            return result;
+        }
+        return ScaledInteger.tryParse(result.value);
     }
 
     static normalizedValues(a: ScaledInteger, b: ScaledInteger): [[number, number], number] {
@@ -103,7 +255,20 @@ export class ScaledInteger {
         return output as Args;
     }
 
+    private static _normalizedBigInts(a: ScaledInteger, b: ScaledInteger): [[bigint, bigint], number] {
+        const { _value: aValue, _scale: aScale } = a;
+        const { _value: bValue, _scale: bScale } = b;
+        if (aScale < bScale) {
+            const lhs = BigInt(aValue) * 10n ** BigInt(bScale - aScale);
+            return [[lhs, BigInt(bValue)], bScale];
+        } else {
+            const rhs = BigInt(bValue) * 10n ** BigInt(aScale - bScale);
+            return [[BigInt(aValue), rhs], aScale];
+        }
+    }
+
     static equal(a: ScaledInteger, b: ScaledInteger): boolean {
+        assertOperands(a, b);
         const { _scale: aScale } = a;
         const { _scale: bScale } = b;
         if (aScale > bScale) {
@@ -114,6 +279,7 @@ export class ScaledInteger {
     }
 
     static compare(a: ScaledInteger, b: ScaledInteger): -1 | 0 | 1 {
+        assertOperands(a, b);
         const { _scale: aScale } = a;
         const { _scale: bScale } = b;
         if (aScale > bScale) {
@@ -145,8 +311,194 @@ export class ScaledInteger {
         return this.compare(a, b) === +1;
     }
 
-    static divide(_a: ScaledInteger, _b: ScaledInteger): [number, number] {
-        throw Error('todo');
+    static divide(
+        a: ScaledInteger,
+        b: ScaledInteger,
+        scale: number,
+        rounding: RoundingMode = 'half-even',
+    ): ScaledInteger {
+        const result = ScaledInteger.checkedDivide(a, b, scale, rounding);
+        if (!result.ok) {
+            throw result.error;
+        }
+        return result.value;
+    }
+
+    static checkedDivide(
+        a: ScaledInteger,
+        b: ScaledInteger,
+        scale: number,
+        rounding: RoundingMode = 'half-even',
+    ): Result<ScaledInteger, OverflowError | DivisionByZeroError | ScaleError | RoundingNecessaryError> {
+        assertOperands(a, b);
+        const scaleError = checkScale(scale);
+        if (scaleError) return { ok: false, error: scaleError };
+        if (b._value === 0) return { ok: false, error: new DivisionByZeroError() };
+        const exponent = b._scale + scale - a._scale;
+        let n = BigInt(a._value);
+        let d = BigInt(b._value);
+        if (exponent >= 0) {
+            n *= 10n ** BigInt(exponent);
+        } else {
+            d *= 10n ** BigInt(-exponent);
+        }
+        // `unnecessary` would throw, so its check is done here
+        const [q, inexact] = divideRounded(n, d, rounding === 'unnecessary' ? 'toward-zero' : rounding);
+        if (inexact && rounding === 'unnecessary') {
+            return { ok: false, error: new RoundingNecessaryError() };
+        }
+        if (q > MAX_SAFE_INTEGER || q < -MAX_SAFE_INTEGER) {
+            return { ok: false, error: new OverflowError('division', [a.clone(), b.clone()]) };
+        }
+        return { ok: true, value: new ScaledInteger(Number(q), scale) };
+    }
+
+    static checkedAdd(a: ScaledInteger, b: ScaledInteger): Result<ScaledInteger, OverflowError> {
+        assertOperands(a, b);
+        const [[lhs, rhs], scale] = ScaledInteger.normalizedValues(a, b);
+        const value = lhs + rhs;
+        if (!Number.isSafeInteger(value)) {
+            return { ok: false, error: new OverflowError('addition', [a.clone(), b.clone()]) };
+        }
+        return { ok: true, value: new ScaledInteger(value, scale) };
+    }
+
+    static checkedSubtract(a: ScaledInteger, b: ScaledInteger): Result<ScaledInteger, OverflowError> {
+        assertOperands(a, b);
+        const [[lhs, rhs], scale] = ScaledInteger.normalizedValues(a, b);
+        const value = lhs - rhs;
+        if (!Number.isSafeInteger(value)) {
+            return { ok: false, error: new OverflowError('subtraction', [a.clone(), b.clone()]) };
+        }
+        return { ok: true, value: new ScaledInteger(value, scale) };
+    }
+
+    static checkedMultiply(a: ScaledInteger, b: ScaledInteger): Result<ScaledInteger, OverflowError> {
+        assertOperands(a, b);
+        const value = a._value * b._value;
+        const scale = a._scale + b._scale;
+        if (!Number.isSafeInteger(value) || !Number.isSafeInteger(scale)) {
+            return { ok: false, error: new OverflowError('multiplication', [a.clone(), b.clone()]) };
+        }
+        return { ok: true, value: new ScaledInteger(value, scale) };
+    }
+
+    // Evaluates formulas such as `(12.50 + 3.75) * 1.08 - 0.5` without `eval`,
+    // with `ScaledInteger` arithmetic at every step. Supports + - * /, unary
+    // minus, parentheses, variables and `round(x[, scale])`, `min`, `max` and
+    // `abs`. Without a context that can divide, quotients must be exact:
+    // `1 / 8` gives 0.125 but `1 / 3` throws `RoundingNecessaryError`
+    static evaluate(
+        expr: string,
+        variables: ExpressionVariables = {},
+        context: ArithmeticContext | undefined = ScaledInteger._context,
+    ): ScaledInteger {
+        const visit = (node: ExpressionNode): ScaledInteger => {
+            switch (node.type) {
+                case 'number':
+                    return ScaledInteger.parse(node.value);
+                case 'variable':
+                    if (!Object.hasOwn(variables, node.name)) {
+                        throw new ParseError(expr, node.position, `unknown variable: ${node.name}`);
+                    }
+                    return variables[node.name]!.clone();
+                case 'negate':
+                    return ScaledInteger._negate(visit(node.operand));
+                case 'binary': {
+                    const left = visit(node.left);
+                    const right = visit(node.right);
+                    switch (node.operator) {
+                        case '+':
+                            return left.plus(right, context);
+                        case '-':
+                            return left.minus(right, context);
+                        case '*':
+                            return left.times(right, context);
+                        case '/':
+                            return ScaledInteger._evaluateDivision(left, right, context);
+                    }
+                }
+                case 'call': {
+                    const args = node.args.map(visit);
+                    switch (node.name) {
+                        case 'abs':
+                            return args[0]!.isNegative() ? ScaledInteger._negate(args[0]!) : args[0]!;
+                        case 'min':
+                            return args.reduce((a, b) => (ScaledInteger.lessThan(b, a) ? b : a));
+                        case 'max':
+                            return args.reduce((a, b) => (ScaledInteger.greaterThan(b, a) ? b : a));
+                        case 'round': {
+                            const scale = args[1] === undefined ? 0 : Number(args[1].toBigInt(0));
+                            return args[0]!.withScale(scale);
+                        }
+                    }
+                }
+            }
+        };
+        return visit(parseExpression(expr));
+    }
+
+    private static _negate(value: ScaledInteger): ScaledInteger {
+        return new ScaledInteger(value._value === 0 ? 0 : -value._value, value._scale);
+    }
+
+    private static _evaluateDivision(
+        a: ScaledInteger,
+        b: ScaledInteger,
+        context: ArithmeticContext | undefined,
+    ): ScaledInteger {
+        if (context?.divide) {
+            return context.divide(a, b);
+        }
+        assertOperands(a, b);
+        if (b._value === 0) throw new DivisionByZeroError();
+        const n = BigInt(a._value) * 10n ** BigInt(b._scale);
+        const d = BigInt(b._value) * 10n ** BigInt(a._scale);
+        const scale = exactQuotientScale(n, d);
+        if (scale === undefined) {
+            throw new RoundingNecessaryError();
+        }
+        return ScaledInteger.divide(a, b, scale, 'unnecessary');
+    }
+
+    static divideWithRemainder(
+        a: ScaledInteger,
+        b: ScaledInteger,
+        mode: DivisionMode = 'truncate',
+    ): [ScaledInteger, ScaledInteger] {
+        assertOperands(a, b);
+        if (b._value === 0) throw new DivisionByZeroError();
+        const [[lhs, rhs], scale] = ScaledInteger._normalizedBigInts(a, b);
+        const rounding: RoundingMode =
+            mode === 'truncate' ? 'toward-zero' : mode === 'floor' || rhs > 0n ? 'floor' : 'ceiling';
+        const [q] = divideRounded(lhs, rhs, rounding);
+        const r = lhs - q * rhs;
+        return [
+            new ScaledInteger(toSafeInteger(q, 'division', [a.clone(), b.clone()]), 0),
+            new ScaledInteger(toSafeInteger(r, 'division', [a.clone(), b.clone()]), scale),
+        ];
+    }
+
+    // Returns a rounded copy of `value` along with whether any non-zero digits
+    // were discarded
+    static round(
+        value: ScaledInteger,
+        scale: number,
+        rounding: RoundingMode = 'half-even',
+    ): [ScaledInteger, boolean] {
+        const output = value.clone();
+        const inexact = output._round(scale, rounding);
+        return [output, inexact];
+    }
+
+    static roundToPrecision(
+        value: ScaledInteger,
+        precision: number,
+        rounding: RoundingMode = 'half-even',
+    ): [ScaledInteger, boolean] {
+        const output = value.clone();
+        const inexact = output._roundToPrecision(precision, rounding);
+        return [output, inexact];
     }
 
     get value() {
@@ -166,7 +518,7 @@ export class ScaledInteger {
         const { _value, _scale } = this;
         const otherScale = other._scale;
         if (_scale < otherScale) {
-            throw Error('other scale must be greater');
+            throw new ScaleError('other scale must be greater');
         }
         return _value * 10 ** (otherScale - _scale);
     }
@@ -176,6 +528,16 @@ export class ScaledInteger {
         return _value * 10 ** (otherScale - _scale);
     }
 
+    // Returns the value in units of the given scale, rounding if needed
+    toBigInt(scale: number = this._scale, rounding: RoundingMode = 'unnecessary'): bigint {
+        assertScale(scale);
+        const { _value, _scale } = this;
+        if (scale >= _scale) {
+            return BigInt(_value) * 10n ** BigInt(scale - _scale);
+        }
+        return divideRounded(BigInt(_value), 10n ** BigInt(_scale - scale), rounding)[0];
+    }
+
     isZero() {
         return this._value === 0;
     }
@@ -211,6 +573,43 @@ export class ScaledInteger {
         }
     }
 
+    format(options: FormatOptions = {}): string {
+        const { maximumFractionDigits = this._scale, rounding = 'half-even' } = options;
+        if (maximumFractionDigits < this._scale) {
+            return formatDecimal(this.withScale(maximumFractionDigits, rounding), options);
+        }
+        return formatDecimal(this, options);
+    }
+
+    toExponential(fractionDigits?: number, rounding: RoundingMode = 'half-even'): string {
+        const { _value, _scale } =
+            fractionDigits === undefined ? this : ScaledInteger.roundToPrecision(this, fractionDigits + 1, rounding)[0];
+        return formatExponential(_value < 0, Math.abs(_value).toString(), _scale, fractionDigits);
+    }
+
+    toEngineering(precision?: number, rounding: RoundingMode = 'half-even'): string {
+        const { _value, _scale } =
+            precision === undefined ? this : ScaledInteger.roundToPrecision(this, precision, rounding)[0];
+        const digits = Math.abs(_value).toString();
+        const exponent = decimalExponent(digits, _scale);
+        const integerDigits = exponent - Math.floor(exponent / 3) * 3 + 1;
+        const fractionDigits = precision === undefined ? undefined : Math.max(0, precision - integerDigits);
+        return formatExponential(_value < 0, digits, _scale, fractionDigits, true);
+    }
+
+    // Uses exponent notation under the same conditions as `Number.prototype.toPrecision`
+    toPrecision(precision: number, rounding: RoundingMode = 'half-even'): string {
+        const [rounded] = ScaledInteger.roundToPrecision(this, precision, rounding);
+        const { _value, _scale } = rounded;
+        const digits = Math.abs(_value).toString();
+        const exponent = decimalExponent(digits, _scale);
+        if (exponent < -6 || exponent >= precision) {
+            return formatExponential(_value < 0, digits, _scale, precision - 1);
+        }
+        const fractionDigits = precision - 1 - exponent;
+        return formatDecimal(rounded.withScale(fractionDigits), { minimumFractionDigits: fractionDigits });
+    }
+
     toLossyNumber(): number {
         return this._value / 10 ** this._scale;
     }
@@ -218,18 +617,21 @@ export class ScaledInteger {
     normalizeTo(other: ScaledInteger) {
         const otherScale = other._scale;
         if (this._scale < otherScale) {
-            this.transformScale(otherScale);
+            this.increaseScale(otherScale - this._scale);
         }
         return this;
     }
 
     increaseScale(scaleIncrement: number) {
-        const { _value } = this;
-        this._value = _value * 10 ** scaleIncrement;
+        // The float product is exact whenever the true result is a safe integer
+        const value = this._value === 0 ? 0 : this._value * 10 ** scaleIncrement;
+        if (!Number.isSafeInteger(value)) throw new OverflowError('rescaling', [this.clone(), scaleIncrement]);
+        this._value = value;
         this._scale += scaleIncrement;
         return this;
     }
 
+    /** @deprecated Use `truncate` or `round`, which do not return the dropped digits. */
     transformScale(newScale: number) {
         const { _value, _scale } = this;
         if (newScale > _scale) {
@@ -242,59 +644,228 @@ export class ScaledInteger {
         return truncated;
     }
 
+    round(scale: number, rounding: RoundingMode = 'half-even') {
+        this._round(scale, rounding);
+        return this;
+    }
+
+    ceil(scale: number = 0) {
+        this._round(scale, 'ceiling');
+        return this;
+    }
+
+    floor(scale: number = 0) {
+        this._round(scale, 'floor');
+        return this;
+    }
+
+    truncate(scale: number = 0) {
+        this._round(scale, 'toward-zero');
+        return this;
+    }
+
+    // Rounds to the given number of significant digits. Digits left of the
+    // decimal point are replaced with zeros when the scale cannot shrink further
+    roundToPrecision(precision: number, rounding: RoundingMode = 'half-even') {
+        this._roundToPrecision(precision, rounding);
+        return this;
+    }
+
+    private _round(scale: number, rounding: RoundingMode): boolean {
+        assertScale(scale);
+        const { _value, _scale } = this;
+        if (scale >= _scale) {
+            this.increaseScale(scale - _scale);
+            return false;
+        }
+        const [value, inexact] = divideRounded(BigInt(_value), 10n ** BigInt(_scale - scale), rounding);
+        this._value = toSafeInteger(value, 'rounding', [this.clone()]);
+        this._scale = scale;
+        return inexact;
+    }
+
+    private _roundToPrecision(precision: number, rounding: RoundingMode): boolean {
+        assertScale(precision, 'precision');
+        if (precision < 1) throw new ScaleError('precision must be at least 1');
+        const { _value, _scale } = this;
+        const digits = Math.abs(_value).toString().length;
+        if (digits <= precision) {
+            return false;
+        }
+        const dropped = digits - precision;
+        if (dropped <= _scale) {
+            return this._round(_scale - dropped, rounding);
+        }
+        const [rounded, inexact] = divideRounded(BigInt(_value), 10n ** BigInt(dropped), rounding);
+        const value = rounded * 10n ** BigInt(dropped - _scale);
+        this._value = toSafeInteger(value, 'rounding', [this.clone()]);
+        this._scale = 0;
+        return inexact;
+    }
+
     trimScale() {
         const { _value, _scale } = this;
-        let i = 0;
+        // Nonzero values stop within 16 digits, zero drops its whole scale
+        let i = _value === 0 ? _scale : 0;
         for (; i < _scale; ++i) {
             const x = _value % 10 ** (i + 1);
             if (x !== 0) {
                 break;
             }
         }
-        this._value = _value / 10 ** i;
+        this._value = _value === 0 ? 0 : _value / 10 ** i;
         this._scale -= i;
         return this;
     }
 
     add(other: ScaledInteger): ScaledInteger {
-        const [[lhs, rhs], scale] = ScaledInteger.normalizedValues(this, other);
-        const value = lhs + rhs;
-        if (!Number.isSafeInteger(value)) {
-            throw Error('addition overflow');
+        const result = ScaledInteger.checkedAdd(this, other);
+        if (!result.ok) {
+            throw result.error;
         }
-        this._value = value;
-        this._scale = scale;
+        const { _value, _scale } = result.value;
+        this._value = _value;
+        this._scale = _scale;
         return this;
     }
 
     subtract(other: ScaledInteger): ScaledInteger {
-        const [[lhs, rhs], scale] = ScaledInteger.normalizedValues(this, other);
-        const value = lhs + rhs;
-        if (!Number.isSafeInteger(value)) {
-            throw Error('subtraction overflow');
+        const result = ScaledInteger.checkedSubtract(this, other);
+        if (!result.ok) {
+            throw result.error;
         }
-        this._value = value;
-        this._scale = scale;
+        const { _value, _scale } = result.value;
+        this._value = _value;
+        this._scale = _scale;
         return this;
     }
 
     multiply(other: ScaledInteger): ScaledInteger {
-        const [[lhs, rhs], scale] = ScaledInteger.normalizedValues(this, other);
-        const value = lhs + rhs;
-        if (!Number.isSafeInteger(value)) {
-            throw Error('multiplication overflow');
+        const result = ScaledInteger.checkedMultiply(this, other);
+        if (!result.ok) {
+            throw result.error;
         }
-        this._value = value;
-        this._scale = scale;
+        const { _value, _scale } = result.value;
+        this._value = _value;
+        this._scale = _scale;
+        return this;
+    }
+
+    divide(other: ScaledInteger, scale: number, rounding: RoundingMode = 'half-even'): ScaledInteger {
+        const { _value, _scale } = ScaledInteger.divide(this, other, scale, rounding);
+        this._value = _value;
+        this._scale = _scale;
+        return this;
+    }
+
+    quotient(other: ScaledInteger, mode: DivisionMode = 'truncate'): ScaledInteger {
+        const [{ _value, _scale }] = ScaledInteger.divideWithRemainder(this, other, mode);
+        this._value = _value;
+        this._scale = _scale;
         return this;
     }
 
-    quotient(_other: ScaledInteger): ScaledInteger {
-        throw Error('todo');
+    remainder(other: ScaledInteger, mode: DivisionMode = 'truncate'): ScaledInteger {
+        const [, { _value, _scale }] = ScaledInteger.divideWithRemainder(this, other, mode);
+        this._value = _value;
+        this._scale = _scale;
+        return this;
+    }
+
+    // Non-mutating counterparts of the arithmetic methods above. These always
+    // return a new instance and so can be used on frozen values
+
+    plus(other: ScaledInteger, context = ScaledInteger._context): ScaledInteger {
+        return context ? context.add(this, other) : this.clone().add(other);
+    }
+
+    minus(other: ScaledInteger, context = ScaledInteger._context): ScaledInteger {
+        return context ? context.subtract(this, other) : this.clone().subtract(other);
+    }
+
+    times(other: ScaledInteger, context = ScaledInteger._context): ScaledInteger {
+        return context ? context.multiply(this, other) : this.clone().multiply(other);
+    }
+
+    // Divides to `scale` when given. Otherwise the context divides, and without
+    // one the quotient must be exact: `1 / 8` gives 0.125 but `1 / 3` throws
+    // `RoundingNecessaryError`
+    dividedBy(
+        other: ScaledInteger,
+        scale?: number,
+        rounding: RoundingMode = 'half-even',
+        context = ScaledInteger._context,
+    ): ScaledInteger {
+        if (scale === undefined) {
+            return ScaledInteger._evaluateDivision(this, other, context);
+        }
+        return ScaledInteger.divide(this, other, scale, rounding);
+    }
+
+    withScale(scale: number, rounding: RoundingMode = 'half-even'): ScaledInteger {
+        return this.clone().round(scale, rounding);
+    }
+
+    // Exact for non-negative exponents unless `scale` asks for fewer digits.
+    // Negative exponents divide to `scale`, which is then required
+    pow(exponent: number, scale?: number, rounding: RoundingMode = 'half-even'): ScaledInteger {
+        const operands = [this.clone(), exponent];
+        // Every power of an integer of magnitude two or more beyond this is unsafe
+        if (scale === undefined && exponent > 53 && Math.abs(this._value) > 1) {
+            throw new OverflowError('exponentiation', operands);
+        }
+        const [value, resultScale] = powerRounded(BigInt(this._value), this._scale, exponent, scale, rounding);
+        return new ScaledInteger(toSafeInteger(value, 'exponentiation', operands), resultScale);
+    }
+
+    sqrt(scale: number, rounding: RoundingMode = 'half-even'): ScaledInteger {
+        return this.nthRoot(2, scale, rounding);
+    }
+
+    // Correctly rounded, computed on the unscaled integer so results do not
+    // depend on the platform's floating point
+    nthRoot(n: number, scale: number, rounding: RoundingMode = 'half-even'): ScaledInteger {
+        const value = rootRounded(BigInt(this._value), this._scale, n, scale, rounding);
+        return new ScaledInteger(toSafeInteger(value, 'root', [this.clone(), n]), scale);
     }
 
-    remainder(_other: ScaledInteger): ScaledInteger {
-        throw Error('todo');
+    // Splits the value into parts proportional to `ratios` that sum back to it
+    // exactly. The value must be representable at `scale`
+    allocate(
+        ratios: (number | ScaledInteger)[],
+        scale: number = this._scale,
+        options: AllocateOptions = {},
+    ): ScaledInteger[] {
+        const total = this.withScale(scale, 'unnecessary')._value;
+        const decimals = ratios.map(ratio =>
+            typeof ratio === 'number' ? ScaledInteger.fromNumber(ratio) : ratio,
+        );
+        let ratioScale = 0;
+        for (const ratio of decimals) {
+            if (ratio.scale > ratioScale) {
+                ratioScale = ratio.scale;
+            }
+        }
+        const units = decimals.map(ratio => BigInt(ratio.value) * 10n ** BigInt(ratioScale - ratio.scale));
+        const parts = allocateUnits(BigInt(total), units, options.distribution);
+        return parts.map(part => new ScaledInteger(toSafeInteger(part, 'allocation', [this.clone()]), scale));
+    }
+
+    split(count: number, scale: number = this._scale, options: AllocateOptions = {}): ScaledInteger[] {
+        if (!Number.isSafeInteger(count) || count < 1) {
+            throw new InvalidArgumentError('count', 'count must be a positive integer');
+        }
+        return this.allocate(Array<number>(count).fill(1), scale, options);
+    }
+
+    // Prevents any further in-place changes. Mutating methods throw a
+    // `TypeError` on a frozen value, while `clone` returns a mutable copy
+    freeze(): this {
+        return Object.freeze(this);
+    }
+
+    isFrozen() {
+        return Object.isFrozen(this);
     }
 
     toJSON(): any {
@@ -551,4 +1122,471 @@ if (import.meta.vitest) {
             expect(r.toString()).toEqual(answer);
         }
     });
+
+    it('subtraction', () => {
+        const values: [string, string, string][] = [
+            ['10', '3', '7'],
+            ['3', '10', '-7'],
+            ['1.5', '0.25', '1.25'],
+            ['-1.5', '-0.25', '-1.25'],
+            ['0.1', '0.1', '0'],
+        ];
+
+        for (const [x, y, answer] of values) {
+            const r = ScaledInteger.parse(x).subtract(ScaledInteger.parse(y)).trimScale();
+            expect(r.toString()).toEqual(answer);
+        }
+    });
+
+    it('multiplication', () => {
+        const values: [string, string, string][] = [
+            ['10', '3', '30'],
+            ['-1.5', '0.25', '-0.375'],
+            ['-1.5', '-2', '3'],
+            ['0.1', '0.1', '0.01'],
+            ['123.456', '0', '0'],
+        ];
+
+        for (const [x, y, answer] of values) {
+            const r = ScaledInteger.parse(x).multiply(ScaledInteger.parse(y)).trimScale();
+            expect(r.toString()).toEqual(answer);
+        }
+
+        const big = new ScaledInteger(2 ** 30);
+        expect(() => big.clone().multiply(big)).toThrow('multiplication overflow');
+    });
+
+    it('division', () => {
+        const values: [string, string, number, RoundingMode, string][] = [
+            ['1', '3', 4, 'half-even', '0.3333'],
+            ['2', '3', 4, 'half-even', '0.6667'],
+            ['-2', '3', 4, 'half-even', '-0.6667'],
+            ['10', '4', 0, 'half-even', '2'],
+            ['10', '4', 0, 'half-up', '3'],
+            ['-10', '4', 0, 'half-up', '-3'],
+            ['-10', '4', 0, 'half-down', '-2'],
+            ['1', '3', 2, 'ceiling', '0.34'],
+            ['-1', '3', 2, 'ceiling', '-0.33'],
+            ['1', '3', 2, 'floor', '0.33'],
+            ['-1', '3', 2, 'floor', '-0.34'],
+            ['-1', '3', 2, 'toward-zero', '-0.33'],
+            ['-1', '3', 2, 'away-from-zero', '-0.34'],
+            ['1.5', '0.25', 0, 'unnecessary', '6'],
+            ['0.01', '100', 4, 'unnecessary', '0.0001'],
+            ['123.456', '0.001', 1, 'unnecessary', '123456'],
+        ];
+
+        for (const [x, y, scale, rounding, answer] of values) {
+            const r = ScaledInteger.divide(ScaledInteger.parse(x), ScaledInteger.parse(y), scale, rounding);
+            expect(r.scale).toEqual(scale);
+            expect(r.trimScale().toString()).toEqual(answer);
+        }
+
+        const a = ScaledInteger.parse('1');
+        expect(a.divide(ScaledInteger.parse('8'), 3)).toBe(a);
+        expect(a.toString()).toEqual('0.125');
+
+        expect(() => ScaledInteger.divide(a, ScaledInteger.parse('3'), 2, 'unnecessary')).toThrow(
+            'rounding necessary',
+        );
+        expect(() => ScaledInteger.divide(a, ScaledInteger.parse('0.00'), 2)).toThrow('division by zero');
+        expect(() => ScaledInteger.divide(a, ScaledInteger.parse('3'), -1)).toThrow();
+        expect(() =>
+            ScaledInteger.divide(new ScaledInteger(Number.MAX_SAFE_INTEGER), ScaledInteger.parse('0.1'), 0),
+        ).toThrow('division overflow');
+    });
+
+    it('quotient and remainder', () => {
+        const values: [string, string, DivisionMode, string, string][] = [
+            ['7', '2', 'truncate', '3', '1'],
+            ['-7', '2', 'truncate', '-3', '-1'],
+            ['7', '-2', 'truncate', '-3', '1'],
+            ['-7', '-2', 'truncate', '3', '-1'],
+            ['7', '2', 'floor', '3', '1'],
+            ['-7', '2', 'floor', '-4', '1'],
+            ['7', '-2', 'floor', '-4', '-1'],
+            ['-7', '-2', 'floor', '3', '-1'],
+            ['7', '2', 'euclidean', '3', '1'],
+            ['-7', '2', 'euclidean', '-4', '1'],
+            ['7', '-2', 'euclidean', '-3', '1'],
+            ['-7', '-2', 'euclidean', '4', '1'],
+            ['10.5', '3', 'truncate', '3', '1.5'],
+            ['-10.5', '0.25', 'floor', '-42', '0'],
+            ['1.23', '0.5', 'truncate', '2', '0.23'],
+        ];
+
+        for (const [x, y, mode, quotient, remainder] of values) {
+            const a = ScaledInteger.parse(x);
+            const b = ScaledInteger.parse(y);
+            const [q, r] = ScaledInteger.divideWithRemainder(a, b, mode);
+            expect(q.toString()).toEqual(quotient);
+            expect(r.clone().trimScale().toString()).toEqual(remainder);
+            expect(a.clone().quotient(b, mode)).toEqual(q);
+            expect(a.clone().remainder(b, mode)).toEqual(r);
+            expect(ScaledInteger.equal(q.clone().multiply(b).add(r), a)).toBe(true);
+        }
+
+        expect(() => ScaledInteger.parse('1').quotient(ScaledInteger.parse('0'))).toThrow('division by zero');
+    });
+
+    it('rounds', () => {
+        const values: [string, number, RoundingMode, string][] = [
+            ['1.005', 2, 'half-even', '1'],
+            ['1.015', 2, 'half-even', '1.02'],
+            ['1.005', 2, 'half-up', '1.01'],
+            ['-1.005', 2, 'half-up', '-1.01'],
+            ['-1.005', 2, 'half-down', '-1'],
+            ['-1.001', 2, 'ceiling', '-1'],
+            ['-1.001', 2, 'floor', '-1.01'],
+            ['-1.009', 2, 'toward-zero', '-1'],
+            ['1.001', 2, 'away-from-zero', '1.01'],
+            ['1.25', 4, 'unnecessary', '1.25'],
+            ['-0.5', 0, 'half-even', '0'],
+            ['-1.5', 0, 'half-even', '-2'],
+        ];
+
+        for (const [x, scale, rounding, answer] of values) {
+            const a = ScaledInteger.parse(x);
+            const [r] = ScaledInteger.round(a, scale, rounding);
+            expect(r.scale).toEqual(scale);
+            expect(r.clone().trimScale().toString()).toEqual(answer);
+            expect(a.toString()).toEqual(x);
+            expect(a.round(scale, rounding)).toEqual(r);
+        }
+
+        expect(ScaledInteger.round(ScaledInteger.parse('1.25'), 1)[1]).toBe(true);
+        expect(ScaledInteger.round(ScaledInteger.parse('1.20'), 1)[1]).toBe(false);
+        expect(ScaledInteger.round(ScaledInteger.parse('1.2'), 3)[1]).toBe(false);
+        expect(() => ScaledInteger.parse('1.25').round(1, 'unnecessary')).toThrow('rounding necessary');
+        expect(() => ScaledInteger.parse('1.25').round(-1)).toThrow();
+
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER);
+        expect(() => max.clone().round(2)).toThrow(OverflowError);
+        expect(() => max.clone().round(400)).toThrow('rescaling overflow');
+        expect(max.round(0).value).toEqual(Number.MAX_SAFE_INTEGER);
+        expect(new ScaledInteger(900719925474099).round(1).value).toEqual(9007199254740990);
+        expect(new ScaledInteger(-900719925474099).round(1).value).toEqual(-9007199254740990);
+        expect(() => new ScaledInteger(-900719925474100).round(1)).toThrow(OverflowError);
+        expect(new ScaledInteger(0).round(400).scale).toEqual(400);
+    });
+
+    it('ceil, floor and truncate', () => {
+        expect(ScaledInteger.parse('1.5').ceil().toString()).toEqual('2');
+        expect(ScaledInteger.parse('-1.5').ceil().toString()).toEqual('-1');
+        expect(ScaledInteger.parse('1.5').floor().toString()).toEqual('1');
+        expect(ScaledInteger.parse('-1.5').floor().toString()).toEqual('-2');
+        expect(ScaledInteger.parse('1.5').truncate().toString()).toEqual('1');
+        expect(ScaledInteger.parse('-1.5').truncate().toString()).toEqual('-1');
+        expect(ScaledInteger.parse('-1.239').truncate(2).toString()).toEqual('-1.23');
+        expect(ScaledInteger.parse('1.231').ceil(2).toString()).toEqual('1.24');
+    });
+
+    it('rounds to significant digits', () => {
+        const values: [string, number, RoundingMode, string, boolean][] = [
+            ['123.456', 4, 'half-even', '123.5', true],
+            ['123.456', 3, 'half-even', '123', true],
+            ['123.456', 6, 'half-even', '123.456', false],
+            ['123.456', 9, 'half-even', '123.456', false],
+            ['-0.0012345', 2, 'half-even', '-0.0012', true],
+            ['12345', 2, 'half-even', '12000', true],
+            ['-12545', 2, 'ceiling', '-12000', true],
+            ['12500', 2, 'half-even', '12000', true],
+            ['12000', 2, 'unnecessary', '12000', false],
+            ['9.99', 2, 'half-even', '10', true],
+        ];
+
+        for (const [x, precision, rounding, answer, inexact] of values) {
+            const [r, flag] = ScaledInteger.roundToPrecision(ScaledInteger.parse(x), precision, rounding);
+            expect(r.trimScale().toString()).toEqual(answer);
+            expect(flag).toBe(inexact);
+        }
+
+        expect(() => ScaledInteger.parse('1').roundToPrecision(0)).toThrow();
+    });
+
+    it('immutable arithmetic', () => {
+        const a = ScaledInteger.parse('10.5').freeze();
+        const b = ScaledInteger.parse('0.25');
+
+        expect(a.plus(b).toString()).toEqual('10.75');
+        expect(a.minus(b).toString()).toEqual('10.25');
+        expect(a.times(b).toString()).toEqual('2.625');
+        expect(a.dividedBy(b, 2).toString()).toEqual('42');
+        expect(a.dividedBy(b).toString()).toEqual('42');
+        expect(ScaledInteger.parse('1').dividedBy(new ScaledInteger(8)).toString()).toEqual('0.125');
+        expect(() => ScaledInteger.parse('1').dividedBy(new ScaledInteger(3))).toThrow(RoundingNecessaryError);
+        expect(a.withScale(4).toJSON()).toEqual({ value: 105000, scale: 4 });
+        expect(a.withScale(0).toString()).toEqual('10');
+        expect(a.withScale(0, 'half-up').toString()).toEqual('11');
+        expect(a.toJSON()).toEqual({ value: 105, scale: 1 });
+        expect(b.toJSON()).toEqual({ value: 25, scale: 2 });
+
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER).freeze();
+        expect(() => max.withScale(3)).toThrow(OverflowError);
+        expect(max.withScale(0).value).toEqual(Number.MAX_SAFE_INTEGER);
+    });
+
+    it('frozen values cannot be mutated', () => {
+        const a = ScaledInteger.parse('10.5').freeze();
+        expect(a.isFrozen()).toBe(true);
+        expect(() => a.add(ScaledInteger.parse('1'))).toThrow(TypeError);
+        expect(() => a.increaseScale(1)).toThrow(TypeError);
+        expect(() => a.round(0)).toThrow(TypeError);
+        expect(a.toString()).toEqual('10.5');
+
+        const b = a.clone();
+        expect(b.isFrozen()).toBe(false);
+        expect(b.add(ScaledInteger.parse('1')).toString()).toEqual('11.5');
+    });
+
+    it('formats', () => {
+        const a = ScaledInteger.parse('-1234567.891');
+        expect(a.format()).toEqual('-1234567.891');
+        expect(a.format({ groupSeparator: ',' })).toEqual('-1,234,567.891');
+        expect(a.format({ maximumFractionDigits: 2 })).toEqual('-1234567.89');
+        expect(a.format({ maximumFractionDigits: 0, rounding: 'ceiling' })).toEqual('-1234567');
+        expect(a.format({ minimumFractionDigits: 2, maximumFractionDigits: 2, accounting: true })).toEqual(
+            '(1234567.89)',
+        );
+        expect(a.format(localeFormatOptions('de-DE', { maximumFractionDigits: 2 }))).toEqual('-1.234.567,89');
+        expect(ScaledInteger.parse('-0.001').format({ maximumFractionDigits: 2 })).toEqual('0');
+        expect(ScaledInteger.parse('-0.5').format()).toEqual('-0.5');
+        expect(ScaledInteger.parse('12').format({ minimumFractionDigits: 2, signDisplay: 'always' })).toEqual(
+            '+12.00',
+        );
+        expect(a.toString()).toEqual('-1234567.891');
+    });
+
+    it('locale parsing', () => {
+        const parse = (str: string, options?: LocaleParseOptions) => {
+            const result = ScaledInteger.parseLocale(str, options);
+            return result.ok ? result.value.toString() : result.error;
+        };
+
+        expect(parse('1,234.56')).toEqual('1234.56');
+        expect(parse('1.234,56', { locale: 'de-DE' })).toEqual('1234.56');
+        expect(parse('(12.00)')).toEqual('-12');
+        expect(parse('12.5%')).toEqual('0.125');
+        expect(parse('1,234.5x')).toMatchObject({ message: 'unexpected character', input: '1,234.5x', position: 7 });
+        expect(parse('90,071,992,547,409,920')).toBeInstanceOf(OverflowError);
+        expect(parse('90,071,992,547,409,920')).toMatchObject({
+            message: 'unsafe integer value',
+            operation: 'parsing',
+        });
+    });
+
+    it('allocates', () => {
+        const total = ScaledInteger.parse('10.00');
+        const sum = (parts: ScaledInteger[]) => parts.reduce((a, b) => a.plus(b), new ScaledInteger(0));
+
+        expect(total.split(3, 2).map(String)).toEqual(['3.34', '3.33', '3.33']);
+        expect(total.split(3, 2, { distribution: 'back' }).map(String)).toEqual(['3.33', '3.33', '3.34']);
+        expect(total.allocate([70, 20, 10], 2).map(String)).toEqual(['7', '2', '1']);
+        expect(total.allocate([0.7, 0.2, 0.1], 0).map(String)).toEqual(['7', '2', '1']);
+        expect(total.allocate([ScaledInteger.parse('1.5'), 1], 2).map(String)).toEqual(['6', '4']);
+        expect(ScaledInteger.parse('-0.05').split(2, 2).map(String)).toEqual(['-0.03', '-0.02']);
+        expect(ScaledInteger.parse('1').split(3, 0).map(String)).toEqual(['1', '0', '0']);
+
+        const parts = ScaledInteger.parse('123.45').allocate([3, 1, 7, 11], 2);
+        expect(parts.every(part => part.scale === 2)).toBe(true);
+        expect(sum(parts).toString()).toEqual('123.45');
+        expect(total.toString()).toEqual('10');
+
+        expect(() => ScaledInteger.parse('1.005').split(2, 2)).toThrow('rounding necessary');
+        expect(() => total.split(0)).toThrow();
+        expect(() => total.allocate([1, -1])).toThrow();
+    });
+
+    it('exponent notation', () => {
+        expect(ScaledInteger.parseExponential('1.5e-7').toJSON()).toEqual({ value: 15, scale: 8 });
+        expect(ScaledInteger.parseExponential('2E+3').toJSON()).toEqual({ value: 2000, scale: 0 });
+        expect(ScaledInteger.parseExponential('-1.250e1').toJSON()).toEqual({ value: -125, scale: 1 });
+        expect(ScaledInteger.parseExponential('12.34').toString()).toEqual('12.34');
+        expect(ScaledInteger.parseExponential('0e-5').toString()).toEqual('0');
+        expect(() => ScaledInteger.parseExponential('1e16')).toThrow('unsafe integer value');
+        expect(() => ScaledInteger.parseExponential('1e400')).toThrow('unsafe integer value');
+        expect(() => ScaledInteger.parseExponential('1.5e')).toThrow('invalid decimal string');
+        expect(ScaledInteger.parseExponential('0e-9000000000000000').toJSON()).toEqual({ value: 0, scale: 0 });
+        expect(ScaledInteger.parseExponential('-0.000e9000000000000000').toJSON()).toEqual({ value: 0, scale: 0 });
+        expect(ScaledInteger.parseExponential('1.000e-3').toJSON()).toEqual({ value: 1, scale: 3 });
+        expect(() => ScaledInteger.parseExponential('1e9000000000000000')).toThrow(OverflowError);
+        expect(() => ScaledInteger.parseExponential('1.5e-9007199254740991')).toThrow(ScaleError);
+        expect(new ScaledInteger(0, 9000000000000000).trimScale().scale).toBe(0);
+
+        const a = ScaledInteger.parse('-123.456');
+        expect(a.toExponential()).toEqual('-1.23456e+2');
+        expect(a.toExponential(2)).toEqual('-1.23e+2');
+        expect(a.toExponential(7)).toEqual('-1.2345600e+2');
+        expect(a.toExponential(0, 'floor')).toEqual('-2e+2');
+        expect(ScaledInteger.parse('0.00000015').toExponential()).toEqual('1.5e-7');
+        expect(ScaledInteger.parse('0').toExponential(1)).toEqual('0.0e+0');
+
+        expect(a.toEngineering()).toEqual('-123.456e+0');
+        expect(ScaledInteger.parse('12345').toEngineering()).toEqual('12.345e+3');
+        expect(ScaledInteger.parse('12345').toEngineering(3)).toEqual('12.3e+3');
+        expect(ScaledInteger.parse('0.00000015').toEngineering(4)).toEqual('150.0e-9');
+
+        expect(a.toPrecision(4)).toEqual('-123.5');
+        expect(a.toPrecision(2)).toEqual('-1.2e+2');
+        expect(a.toPrecision(8)).toEqual('-123.45600');
+        expect(ScaledInteger.parse('0.00001234').toPrecision(2)).toEqual('0.000012');
+        expect(ScaledInteger.parse('0.0000001234').toPrecision(2)).toEqual('1.2e-7');
+        expect(ScaledInteger.parse('9.99').toPrecision(2)).toEqual('10');
+
+        for (const str of ['-123.456', '0.00001234', '0.0000001234', '9.99', '12345', '0.5']) {
+            const n = Number(str);
+            for (const digits of [1, 2, 3, 6]) {
+                expect(ScaledInteger.parse(str).toPrecision(digits, 'half-up')).toEqual(n.toPrecision(digits));
+            }
+        }
+    });
+
+    it('converts from numbers', () => {
+        expect(ScaledInteger.fromNumber(123.456).toJSON()).toEqual({ value: 123456, scale: 3 });
+        expect(ScaledInteger.fromNumber(1e-7).toString()).toEqual('0.0000001');
+        expect(ScaledInteger.fromNumber(-0).toJSON()).toEqual({ value: 0, scale: 0 });
+        expect(ScaledInteger.fromNumber(0.1 + 0.2, { scale: 2 }).toString()).toEqual('0.30');
+        expect(ScaledInteger.fromNumber(2.675, { mode: 'exact', scale: 15, rounding: 'floor' }).toString()).toEqual(
+            '2.674999999999999',
+        );
+        expect(ScaledInteger.fromNumber(2.675, { mode: 'exact', scale: 2, rounding: 'half-up' }).toString()).toEqual(
+            '2.67',
+        );
+        expect(ScaledInteger.fromNumber(2.675, { scale: 2, rounding: 'half-up' }).toString()).toEqual('2.68');
+        expect(() => ScaledInteger.fromNumber(0.1, { mode: 'exact' })).toThrow('unsafe integer value');
+        expect(() => ScaledInteger.fromNumber(NaN)).toThrow('non-finite');
+        expect(() => ScaledInteger.fromNumber(-Infinity)).toThrow('non-finite');
+        expect(() => ScaledInteger.fromNumber(1e300)).toThrow('unsafe integer value');
+    });
+
+    it('converts to and from bigints', () => {
+        expect(ScaledInteger.fromBigInt(12345n, 2).toString()).toEqual('123.45');
+        expect(ScaledInteger.fromBigInt(-5n).toString()).toEqual('-5');
+        expect(() => ScaledInteger.fromBigInt(2n ** 60n)).toThrow('unsafe integer value');
+
+        const a = ScaledInteger.parse('-123.45');
+        expect(a.toBigInt()).toBe(-12345n);
+        expect(a.toBigInt(4)).toBe(-1234500n);
+        expect(a.toBigInt(0, 'floor')).toBe(-124n);
+        expect(() => a.toBigInt(1)).toThrow('rounding necessary');
+        expect(() => a.toBigInt(-1)).toThrow();
+    });
+
+    it('powers and roots', () => {
+        const d = ScaledInteger.parse;
+        expect(d('1.5').pow(2).toString()).toBe('2.25');
+        expect(d('-1.1').pow(3).toString()).toBe('-1.331');
+        expect(d('7').pow(0).toString()).toBe('1');
+        expect(d('1.05').pow(10, 6).toString()).toBe('1.628895');
+        expect(d('2').pow(-10, 8).toString()).toBe('0.00097656');
+        expect(d('0.5').pow(-2, 0).toString()).toBe('4');
+        expect(() => d('2').pow(-1)).toThrow('negative exponents require a scale');
+        expect(() => d('2').pow(53)).toThrow(OverflowError);
+        expect(() => d('2').pow(1000)).toThrow(OverflowError);
+        expect(d('1').pow(1000).toString()).toBe('1');
+        expect(() => d('0').pow(-1, 2)).toThrow(DivisionByZeroError);
+        expect(() => d('2').pow(-1e9, 2)).toThrow(OverflowError);
+        expect(() => d('0.5').pow(1e9, 2)).toThrow('exponent is too large');
+
+        expect(d('2').sqrt(10).toString()).toBe('1.4142135624');
+        expect(d('2').sqrt(10, 'floor').toString()).toBe('1.4142135623');
+        expect(d('0.0004').sqrt(2).toString()).toBe('0.02');
+        expect(d('6.25').sqrt(0).toString()).toBe('2');
+        expect(d('6.25').sqrt(0, 'half-up').toString()).toBe('3');
+        expect(() => d('-1').sqrt(2)).toThrow('even root of a negative number');
+        expect(d('-8').nthRoot(3, 2).toJSON()).toEqual({ value: -200, scale: 2 });
+        expect(d('1.5').nthRoot(12, 8).toString()).toBe('1.03436608');
+        expect(d('1000000').nthRoot(6, 0, 'unnecessary').toString()).toBe('10');
+    });
+
+    it('evaluates expressions', () => {
+        const evaluate = (expr: string, variables?: ExpressionVariables, context?: ArithmeticContext) =>
+            ScaledInteger.evaluate(expr, variables, context).toString();
+
+        expect(evaluate('(12.50 + 3.75) * 1.08 - 0.5')).toBe('17.0500');
+        expect(evaluate('0.1 + 0.2')).toBe('0.3');
+        expect(evaluate('-2 * -(3 - 5)')).toBe('-4');
+        expect(evaluate('1 / 8')).toBe('0.125');
+        expect(evaluate('1.5 / 0.05')).toBe('30');
+        expect(evaluate('price * qty', { price: ScaledInteger.parse('19.99'), qty: new ScaledInteger(3) })).toBe(
+            '59.97',
+        );
+        expect(evaluate('round(2.675, 2) + round(0.5)')).toBe('2.68');
+        expect(evaluate('min(3, -1.5, 2) + max(1, 4.25) + abs(-0.75)')).toBe('3.50');
+        expect(evaluate('-0')).toBe('0');
+
+        expect(() => evaluate('1 / 3')).toThrow(RoundingNecessaryError);
+        expect(() => evaluate('1 / (2 - 2)')).toThrow(DivisionByZeroError);
+        expect(() => evaluate('9007199254740991 + 1')).toThrow(OverflowError);
+        expect(() => evaluate('round(1, -1)')).toThrow(ScaleError);
+        expect(() => evaluate('1 + rate')).toThrow(
+            expect.objectContaining({ position: 4, message: 'unknown variable: rate' }),
+        );
+        expect(() => evaluate('toString')).toThrow('unknown variable: toString');
+        expect(() => evaluate('1 + * 2')).toThrow(expect.objectContaining({ position: 4 }));
+        expect(() => evaluate('1+'.repeat(20000) + '1')).toThrow(ParseError);
+        expect(evaluate('1+'.repeat(2047) + '1')).toBe('2048');
+    });
+
+    it('reports failures without throwing', () => {
+        const parsed = ScaledInteger.tryParse('12.3x');
+        expect(parsed.ok).toBe(false);
+        expect(!parsed.ok && parsed.error).toBeInstanceOf(ParseError);
+        expect(parsed).toMatchObject({ error: { input: '12.3x', position: 4 } });
+        expect(ScaledInteger.tryParse('1.')).toMatchObject({ error: { position: 2 } });
+        expect(ScaledInteger.tryParseLax('1.5')).toMatchObject({ ok: true, value: { value: 15, scale: 1 } });
+        expect(ScaledInteger.tryParseLax('1..5')).toMatchObject({ error: { position: 2 } });
+        expect(ScaledInteger.tryParse('90071992547409920').ok).toBe(false);
+        expect(() => ScaledInteger.parse('1e5')).toThrow(ParseError);
+        expect(() => ScaledInteger.parseExponential('1e')).toThrow(expect.objectContaining({ position: 2 }));
+
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER);
+        const one = ScaledInteger.parse('1');
+        const sum = ScaledInteger.checkedAdd(max, one);
+        expect(!sum.ok && sum.error).toBeInstanceOf(OverflowError);
+        expect(sum).toMatchObject({ error: { operation: 'addition', message: 'addition overflow' } });
+        expect(!sum.ok && sum.error.operands).toEqual([max, one]);
+        expect(ScaledInteger.checkedSubtract(new ScaledInteger(-Number.MAX_SAFE_INTEGER), one).ok).toBe(false);
+        expect(ScaledInteger.checkedMultiply(max, new ScaledInteger(2)).ok).toBe(false);
+        expect(ScaledInteger.checkedAdd(one, ScaledInteger.parse('0.5'))).toMatchObject({
+            ok: true,
+            value: { value: 15, scale: 1 },
+        });
+
+        const quotient = ScaledInteger.checkedDivide(one, ScaledInteger.parse('0'), 2);
+        expect(!quotient.ok && quotient.error).toBeInstanceOf(DivisionByZeroError);
+        expect(ScaledInteger.checkedDivide(one, ScaledInteger.parse('3'), 2)).toMatchObject({
+            ok: true,
+            value: { value: 33, scale: 2 },
+        });
+        const inexact = ScaledInteger.checkedDivide(one, ScaledInteger.parse('3'), 2, 'unnecessary');
+        expect(!inexact.ok && inexact.error).toBeInstanceOf(RoundingNecessaryError);
+        expect(ScaledInteger.checkedDivide(one, ScaledInteger.parse('8'), 3, 'unnecessary')).toMatchObject({
+            ok: true,
+            value: { value: 125, scale: 3 },
+        });
+        const badScale = ScaledInteger.checkedDivide(one, ScaledInteger.parse('3'), -1);
+        expect(!badScale.ok && badScale.error).toBeInstanceOf(ScaleError);
+        expect(ScaledInteger.checkedDivide(one, ScaledInteger.parse('3'), 0.5)).toMatchObject({
+            error: { message: 'scale must be a safe integer' },
+        });
+    });
+
+    it('throws typed errors', () => {
+        const max = new ScaledInteger(Number.MAX_SAFE_INTEGER);
+        expect(() => max.clone().add(new ScaledInteger(1))).toThrow(OverflowError);
+        expect(() => new ScaledInteger(1.5)).toThrow(InvalidArgumentError);
+        expect(() => new ScaledInteger(NaN)).toThrow(InvalidArgumentError);
+        expect(() => new ScaledInteger(2 ** 53)).toThrow(OverflowError);
+        expect(() => ScaledInteger.parse('1').split(0)).toThrow(InvalidArgumentError);
+        expect(() => ScaledInteger.fromNumber(Infinity)).toThrow(InvalidArgumentError);
+        expect(() => ScaledInteger.parse('2').pow(-1)).toThrow(InvalidArgumentError);
+        expect(() => ScaledInteger.parse('2').pow(0.5)).toThrow(InvalidArgumentError);
+        expect(() => ScaledInteger.parse('-1').nthRoot(2, 2)).toThrow(InvalidArgumentError);
+        expect(() => ScaledInteger.parse('1').nthRoot(0, 2)).toThrow(InvalidArgumentError);
+        expect(() => new ScaledInteger(1, -1)).toThrow(ScaleError);
+        expect(() => ScaledInteger.divide(max, new ScaledInteger(0), 2)).toThrow(DivisionByZeroError);
+        expect(() => max.clone().roundToPrecision(0)).toThrow(ScaleError);
+        expect(() => ScaledInteger.parse('x')).toThrow(ScaledIntegerError);
+    });
 }
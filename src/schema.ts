@@ -0,0 +1,496 @@
+import {
+    InvalidArgumentError,
+    OverflowError,
+    ParseError,
+    ScaleError,
+    ScaledIntegerError,
+    assertScale,
+    type Result,
+} from './errors.js';
+import { ScaledInteger } from './scaled-integer.js';
+
+// The Standard Schema interface (https://standardschema.dev), copied here as
+// the specification recommends instead of adding a dependency
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+    readonly '~standard': {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+        readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+    };
+}
+
+export type StandardSchemaResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: readonly StandardSchemaIssue[] };
+
+export interface StandardSchemaIssue {
+    readonly message: string;
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined;
+}
+
+export type DecimalIssueCode =
+    | 'invalid_type'
+    | 'invalid_decimal'
+    | 'unsafe_integer'
+    | 'too_small'
+    | 'too_big'
+    | 'too_many_fraction_digits'
+    | 'too_many_integer_digits'
+    | 'invalid_sign'
+    | 'not_multiple_of';
+
+export interface DecimalIssue extends StandardSchemaIssue {
+    readonly code: DecimalIssueCode;
+    readonly message: string;
+    readonly path: readonly PropertyKey[];
+}
+
+// What a schema accepts: decimal strings, numbers (through their shortest
+// decimal representation), serialized `{ value, scale }` objects and
+// `ScaledInteger` instances
+export type DecimalSchemaInput = string | number | { value: number; scale: number } | ScaledInteger;
+
+export interface SchemaParseOptions {
+    // Prepended to the path of every issue, e.g. the field being validated
+    path?: readonly PropertyKey[];
+}
+
+export class DecimalValidationError extends ScaledIntegerError {
+    readonly issues: readonly DecimalIssue[];
+
+    constructor(issues: readonly DecimalIssue[]) {
+        const describe = (issue: DecimalIssue) =>
+            (issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ` : '') + issue.message;
+        super(issues.map(describe).join('; '));
+        this.issues = issues;
+    }
+}
+
+export type DecimalSign = 'positive' | 'negative' | 'non-negative' | 'non-positive';
+
+interface Bound {
+    value: ScaledInteger;
+    exclusive: boolean;
+}
+
+interface DecimalRules {
+    lax: boolean;
+    min?: Bound;
+    max?: Bound;
+    maxScale?: number;
+    maxIntegerDigits?: number;
+    sign?: DecimalSign;
+    step?: ScaledInteger;
+}
+
+const SIGN_TESTS: Record<DecimalSign, (value: ScaledInteger) => boolean> = {
+    positive: value => value.isPositive(),
+    negative: value => value.isNegative(),
+    'non-negative': value => !value.isNegative(),
+    'non-positive': value => !value.isPositive(),
+};
+
+const toDecimal = (input: string | ScaledInteger): ScaledInteger =>
+    typeof input === 'string' ? ScaledInteger.parse(input) : input.clone().freeze();
+
+// Serialized scales above this are rejected, since checking a value at a
+// scale of millions would take seconds and eventually exceed the bigint limit
+const MAX_SERIALIZED_SCALE = 1_000;
+
+// Counted from the unscaled digits, so that no power of ten is built
+const integerDigits = (value: ScaledInteger): number => {
+    const digits = Math.abs(value.value).toString().length;
+    return value.isZero() || value.scale >= digits ? 0 : digits - value.scale;
+};
+
+// Significant fraction digits, so that `1.50` counts as one
+const fractionDigits = (value: ScaledInteger): number => value.clone().trimScale().scale;
+
+const isRecord = (input: unknown): input is Record<string, unknown> =>
+    typeof input === 'object' && input !== null && !Array.isArray(input);
+
+// An immutable set of rules for decimal inputs. Every method returns a new
+// schema, so a shared base such as `decimalSchema().precision(12, 2)` can be
+// narrowed differently by each caller
+export class DecimalSchema implements StandardSchemaV1<DecimalSchemaInput, ScaledInteger> {
+    private readonly _rules: Readonly<DecimalRules>;
+
+    // Use `decimalSchema()`
+    private constructor(rules: DecimalRules) {
+        this._rules = Object.freeze(rules);
+        Object.freeze(this);
+    }
+
+    static create(): DecimalSchema {
+        return new DecimalSchema({ lax: false });
+    }
+
+    private _with(rules: Partial<DecimalRules>): DecimalSchema {
+        return new DecimalSchema({ ...this._rules, ...rules });
+    }
+
+    // Strings must match `ScaledInteger.parse`, and serialized objects must
+    // hold a numeric `value`. This is the default
+    strict(): DecimalSchema {
+        return this._with({ lax: false });
+    }
+
+    // Strings go through `ScaledInteger.parseLax` after trimming whitespace,
+    // so `.5`, `+1` and `2.` are accepted, and serialized values may be
+    // integer strings. Empty strings are still rejected
+    lax(): DecimalSchema {
+        return this._with({ lax: true });
+    }
+
+    min(bound: string | ScaledInteger, options: { exclusive?: boolean } = {}): DecimalSchema {
+        return this._with({ min: { value: toDecimal(bound), exclusive: options.exclusive ?? false } });
+    }
+
+    max(bound: string | ScaledInteger, options: { exclusive?: boolean } = {}): DecimalSchema {
+        return this._with({ max: { value: toDecimal(bound), exclusive: options.exclusive ?? false } });
+    }
+
+    greaterThan(bound: string | ScaledInteger): DecimalSchema {
+        return this.min(bound, { exclusive: true });
+    }
+
+    lessThan(bound: string | ScaledInteger): DecimalSchema {
+        return this.max(bound, { exclusive: true });
+    }
+
+    maxScale(scale: number): DecimalSchema {
+        assertScale(scale);
+        return this._with({ maxScale: scale });
+    }
+
+    maxIntegerDigits(digits: number): DecimalSchema {
+        assertScale(digits, 'digits');
+        return this._with({ maxIntegerDigits: digits });
+    }
+
+    // The digits a SQL `NUMERIC(precision, scale)` column can hold
+    precision(precision: number, scale: number = 0): DecimalSchema {
+        assertScale(precision, 'precision');
+        assertScale(scale);
+        if (scale > precision) throw new ScaleError('scale must not exceed precision');
+        return this.maxScale(scale).maxIntegerDigits(precision - scale);
+    }
+
+    sign(sign: DecimalSign): DecimalSchema {
+        return this._with({ sign });
+    }
+
+    positive(): DecimalSchema {
+        return this.sign('positive');
+    }
+
+    negative(): DecimalSchema {
+        return this.sign('negative');
+    }
+
+    nonNegative(): DecimalSchema {
+        return this.sign('non-negative');
+    }
+
+    nonPositive(): DecimalSchema {
+        return this.sign('non-positive');
+    }
+
+    // Only multiples of `increment` are valid, e.g. `step('0.05')`
+    step(increment: string | ScaledInteger): DecimalSchema {
+        const step = toDecimal(increment);
+        if (!step.isPositive()) throw new InvalidArgumentError('increment', 'step must be positive');
+        return this._with({ step });
+    }
+
+    // Collects every violation rather than stopping at the first one. Inputs
+    // that are not decimals at all are reported alone
+    safeParse(input: unknown, options: SchemaParseOptions = {}): Result<ScaledInteger, DecimalValidationError> {
+        const path = options.path ?? [];
+        const issues: DecimalIssue[] = [];
+        const report = (code: DecimalIssueCode, message: string, key?: PropertyKey) => {
+            issues.push({ code, message, path: key === undefined ? path : [...path, key] });
+        };
+
+        const value = this._coerce(input, report);
+        if (value !== undefined) {
+            this._check(value, report);
+        }
+        if (issues.length > 0) {
+            return { ok: false, error: new DecimalValidationError(issues) };
+        }
+        return { ok: true, value: value! };
+    }
+
+    parse(input: unknown, options: SchemaParseOptions = {}): ScaledInteger {
+        const result = this.safeParse(input, options);
+        if (!result.ok) {
+            throw result.error;
+        }
+        return result.value;
+    }
+
+    get '~standard'(): StandardSchemaV1<DecimalSchemaInput, ScaledInteger>['~standard'] {
+        return {
+            version: 1,
+            vendor: 'scaled-integer',
+            validate: (value: unknown) => {
+                const result = this.safeParse(value);
+                return result.ok ? { value: result.value } : { issues: result.error.issues };
+            },
+        };
+    }
+
+    private _coerce(
+        input: unknown,
+        report: (code: DecimalIssueCode, message: string, key?: PropertyKey) => void,
+    ): ScaledInteger | undefined {
+        const { lax } = this._rules;
+        if (input instanceof ScaledInteger) {
+            return input.clone();
+        }
+        if (typeof input === 'string') {
+            const str = lax ? input.trim() : input;
+            if (str === '') {
+                report('invalid_decimal', 'expected a decimal, got an empty string');
+                return;
+            }
+            const result = lax ? ScaledInteger.tryParseLax(str) : ScaledInteger.tryParse(str);
+            if (!result.ok) {
+                const { error } = result;
+                if (error instanceof ParseError) {
+                    report('invalid_decimal', `invalid decimal string at position ${error.position}`);
+                } else {
+                    report('unsafe_integer', 'value is too large to represent exactly');
+                }
+                return;
+            }
+            return result.value;
+        }
+        if (typeof input === 'number') {
+            if (!Number.isFinite(input)) {
+                report('invalid_decimal', `expected a finite number, got ${input}`);
+                return;
+            }
+            try {
+                return ScaledInteger.fromNumber(input);
+            } catch (error) {
+                if (!(error instanceof OverflowError)) throw error;
+                report('unsafe_integer', 'value is too large to represent exactly');
+                return;
+            }
+        }
+        if (isRecord(input) && 'value' in input && 'scale' in input) {
+            return this._coerceSerialized(input, report);
+        }
+        report('invalid_type', `expected a decimal string, number or { value, scale } object, got ${typeof input}`);
+        return;
+    }
+
+    private _coerceSerialized(
+        input: Record<string, unknown>,
+        report: (code: DecimalIssueCode, message: string, key?: PropertyKey) => void,
+    ): ScaledInteger | undefined {
+        const { value, scale } = input;
+        let units: number | undefined;
+        if (typeof value === 'number' || (this._rules.lax && typeof value === 'string' && /^-?[0-9]+$/.test(value))) {
+            units = Number(value);
+            if (!Number.isInteger(units)) {
+                report('invalid_type', 'expected an integer', 'value');
+                units = undefined;
+            } else if (!Number.isSafeInteger(units)) {
+                report('unsafe_integer', 'value is too large to represent exactly', 'value');
+                units = undefined;
+            }
+        } else {
+            const expected = this._rules.lax ? 'an integer or integer string' : 'an integer';
+            report('invalid_type', `expected ${expected}`, 'value');
+        }
+        const validScale = typeof scale === 'number' && Number.isSafeInteger(scale) && scale >= 0;
+        if (!validScale) {
+            report('invalid_type', 'expected a non-negative integer', 'scale');
+        } else if (scale > MAX_SERIALIZED_SCALE) {
+            report('invalid_type', `expected a scale of at most ${MAX_SERIALIZED_SCALE}`, 'scale');
+        }
+        return units !== undefined && validScale && scale <= MAX_SERIALIZED_SCALE
+            ? new ScaledInteger(units, scale)
+            : undefined;
+    }
+
+    private _check(value: ScaledInteger, report: (code: DecimalIssueCode, message: string) => void) {
+        const { min, max, maxScale, maxIntegerDigits, sign, step } = this._rules;
+        if (min !== undefined) {
+            const comparison = ScaledInteger.compare(value, min.value);
+            if (comparison < 0 || (min.exclusive && comparison === 0)) {
+                report('too_small', `must be ${min.exclusive ? 'greater than' : 'at least'} ${min.value}`);
+            }
+        }
+        if (max !== undefined) {
+            const comparison = ScaledInteger.compare(value, max.value);
+            if (comparison > 0 || (max.exclusive && comparison === 0)) {
+                report('too_big', `must be ${max.exclusive ? 'less than' : 'at most'} ${max.value}`);
+            }
+        }
+        if (maxScale !== undefined && fractionDigits(value) > maxScale) {
+            report('too_many_fraction_digits', `must have at most ${maxScale} fraction digits`);
+        }
+        if (maxIntegerDigits !== undefined && integerDigits(value) > maxIntegerDigits) {
+            report('too_many_integer_digits', `must have at most ${maxIntegerDigits} integer digits`);
+        }
+        if (sign !== undefined && !SIGN_TESTS[sign](value)) {
+            report('invalid_sign', `must be ${sign}`);
+        }
+        if (step !== undefined) {
+            const scale = Math.max(value.scale, step.scale);
+            if (value.toBigInt(scale) % step.toBigInt(scale) !== 0n) {
+                report('not_multiple_of', `must be a multiple of ${step}`);
+            }
+        }
+    }
+}
+
+export const decimalSchema = (): DecimalSchema => DecimalSchema.create();
+
+/* istanbul ignore if -- @preserve */
+if (import.meta.vitest) {
+    const { it, expect } = import.meta.vitest;
+
+    const codes = (schema: DecimalSchema, input: unknown) => {
+        const result = schema.safeParse(input);
+        return result.ok ? [] : result.error.issues.map(issue => issue.code);
+    };
+
+    it('coerces inputs', () => {
+        const schema = decimalSchema();
+        expect(schema.parse('12.50').toJSON()).toEqual({ value: 125, scale: 1 });
+        expect(schema.parse(0.1).toJSON()).toEqual({ value: 1, scale: 1 });
+        expect(schema.parse({ value: 1250, scale: 2 }).toJSON()).toEqual({ value: 1250, scale: 2 });
+        expect(schema.parse(ScaledInteger.parse('3')).toString()).toBe('3');
+
+        expect(codes(schema, '')).toEqual(['invalid_decimal']);
+        expect(codes(schema, ' 1')).toEqual(['invalid_decimal']);
+        expect(codes(schema, '.5')).toEqual(['invalid_decimal']);
+        expect(codes(schema, '99999999999999999')).toEqual(['unsafe_integer']);
+        expect(codes(schema, NaN)).toEqual(['invalid_decimal']);
+        expect(codes(schema, 1e20)).toEqual(['unsafe_integer']);
+        expect(codes(schema, null)).toEqual(['invalid_type']);
+        expect(codes(schema, [])).toEqual(['invalid_type']);
+        expect(codes(schema, { value: '1250', scale: 2 })).toEqual(['invalid_type']);
+        expect(codes(schema, { value: 1.5, scale: -1 })).toEqual(['invalid_type', 'invalid_type']);
+        expect(schema.safeParse({ value: 1.5, scale: -1 })).toMatchObject({
+            ok: false,
+            error: { issues: [{ path: ['value'] }, { path: ['scale'] }] },
+        });
+    });
+
+    it('parses leniently in lax mode', () => {
+        const schema = decimalSchema().lax();
+        expect(schema.parse(' .5 ').toJSON()).toEqual({ value: 5, scale: 1 });
+        expect(schema.parse('+2.').toString()).toBe('2');
+        expect(schema.parse({ value: '-1250', scale: 2 }).toJSON()).toEqual({ value: -1250, scale: 2 });
+        expect(codes(schema, '  ')).toEqual(['invalid_decimal']);
+        expect(codes(schema, '1,5')).toEqual(['invalid_decimal']);
+        expect(codes(schema.strict(), ' .5 ')).toEqual(['invalid_decimal']);
+    });
+
+    it('checks bounds', () => {
+        const percent = decimalSchema().min('0').max('100');
+        expect(percent.parse('100').toString()).toBe('100');
+        expect(percent.parse('0').toString()).toBe('0');
+        expect(codes(percent, '100.01')).toEqual(['too_big']);
+        expect(codes(percent, '-0.01')).toEqual(['too_small']);
+
+        const open = decimalSchema().greaterThan('0').lessThan(ScaledInteger.parse('1'));
+        expect(codes(open, '0')).toEqual(['too_small']);
+        expect(codes(open, '1')).toEqual(['too_big']);
+        expect(open.parse('0.999').toString()).toBe('0.999');
+        expect(() => open.parse('1')).toThrow('must be less than 1');
+        expect(() => decimalSchema().min('abc')).toThrow();
+    });
+
+    it('checks digits, sign and step', () => {
+        const numeric = decimalSchema().precision(5, 2);
+        expect(numeric.parse('999.99').toString()).toBe('999.99');
+        expect(numeric.parse('1.500').toString()).toBe('1.5');
+        expect(numeric.parse('0.5').toString()).toBe('0.5');
+        expect(codes(numeric, '1000')).toEqual(['too_many_integer_digits']);
+        expect(codes(numeric, '0.001')).toEqual(['too_many_fraction_digits']);
+        expect(codes(numeric, '-1000.001')).toEqual(['too_many_fraction_digits', 'too_many_integer_digits']);
+        expect(() => decimalSchema().precision(2, 3)).toThrow('scale must not exceed precision');
+        expect(() => decimalSchema().precision(2, 3)).toThrow(ScaleError);
+
+        expect(codes(decimalSchema().positive(), '0')).toEqual(['invalid_sign']);
+        expect(codes(decimalSchema().nonNegative(), '0')).toEqual([]);
+        expect(codes(decimalSchema().negative(), '0.1')).toEqual(['invalid_sign']);
+        expect(codes(decimalSchema().nonPositive(), '-0.1')).toEqual([]);
+
+        const nickels = decimalSchema().step('0.05');
+        expect(nickels.parse('1.15').toString()).toBe('1.15');
+        expect(nickels.parse('-3').toString()).toBe('-3');
+        expect(codes(nickels, '1.17')).toEqual(['not_multiple_of']);
+        expect(codes(nickels, '0.051')).toEqual(['not_multiple_of']);
+        expect(() => decimalSchema().step('0')).toThrow('step must be positive');
+        expect(() => decimalSchema().step('-0.05')).toThrow(InvalidArgumentError);
+    });
+
+    it('rejects huge serialized scales', () => {
+        const numeric = decimalSchema().maxIntegerDigits(3);
+        const nickels = decimalSchema().step('0.05');
+        for (const scale of [1e7, 1e15]) {
+            expect(codes(numeric, { value: 1, scale })).toEqual(['invalid_type']);
+            expect(codes(nickels, { value: 1, scale })).toEqual(['invalid_type']);
+            expect(numeric.safeParse({ value: 1, scale })).toMatchObject({
+                ok: false,
+                error: { issues: [{ path: ['scale'], message: 'expected a scale of at most 1000' }] },
+            });
+        }
+        expect(numeric.parse({ value: 1, scale: 1000 }).scale).toBe(1000);
+        expect(codes(numeric, { value: 12345, scale: 2 })).toEqual([]);
+        expect(codes(numeric, { value: 123456, scale: 2 })).toEqual(['too_many_integer_digits']);
+        expect(codes(numeric, { value: -99, scale: 5 })).toEqual([]);
+        expect(codes(nickels, { value: 5, scale: 1000 })).toEqual(['not_multiple_of']);
+    });
+
+    it('collects every violation', () => {
+        const price = decimalSchema().positive().max('1000').precision(6, 2).step('0.05');
+        const result = price.safeParse('-12345.678', { path: ['items', 0, 'price'] });
+        expect(result.ok).toBe(false);
+        if (result.ok) return;
+        expect(result.error).toBeInstanceOf(DecimalValidationError);
+        expect(result.error.issues.map(issue => issue.code)).toEqual([
+            'too_many_fraction_digits',
+            'too_many_integer_digits',
+            'invalid_sign',
+            'not_multiple_of',
+        ]);
+        expect(result.error.issues[0]).toEqual({
+            code: 'too_many_fraction_digits',
+            message: 'must have at most 2 fraction digits',
+            path: ['items', 0, 'price'],
+        });
+        expect(result.error.message).toMatch(/^items\.0\.price: must have at most 2 fraction digits; /);
+        expect(codes(price, '1000.05')).toEqual(['too_big']);
+    });
+
+    it('composes without mutation', () => {
+        const base = decimalSchema().precision(12, 2);
+        const positive = base.positive();
+        expect(codes(base, '-1')).toEqual([]);
+        expect(codes(positive, '-1')).toEqual(['invalid_sign']);
+        expect(codes(positive, '-0.001')).toEqual(['too_many_fraction_digits', 'invalid_sign']);
+        expect(Object.isFrozen(base)).toBe(true);
+    });
+
+    it('implements Standard Schema', async () => {
+        const schema: StandardSchemaV1<DecimalSchemaInput, ScaledInteger> = decimalSchema().min('1');
+        const standard = schema['~standard'];
+        expect(standard.version).toBe(1);
+        expect(standard.vendor).toBe('scaled-integer');
+        const success = await standard.validate('2.5');
+        expect(success.issues).toBeUndefined();
+        expect((success as { value: ScaledInteger }).value.toString()).toBe('2.5');
+        const failure = await standard.validate('0.5');
+        expect(failure.issues).toEqual([{ code: 'too_small', message: 'must be at least 1', path: [] }]);
+    });
+}
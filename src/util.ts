@@ -1,3 +1,22 @@
+import { OverflowError } from './errors.js';
+
+export const STRICT_DECIMAL_REGEX = /^(?<sign>[-+]?)(?<major>[0-9]+)(\.(?<minor>[0-9]+))?$/;
+export const LAX_DECIMAL_REGEX = /^(?<sign>[-+]?)(?<major>[0-9]*)(\.(?<minor>[0-9]*))?$/;
+
+// Splits a decimal string into its sign and its major and minor digits, with
+// leading zeros trimmed from the major digits and trailing zeros trimmed from
+// the minor digits. Neither digit string is ever empty
+export const matchDecimal = (str: string, regex: RegExp): [string, string, string] | undefined => {
+    const groups = str.match(regex)?.groups;
+    if (!groups) {
+        return;
+    }
+    const sign = groups['sign']!;
+    const majorStr = trimStart(groups['major']!, '0') || '0';
+    const minorStr = trimEnd(groups['minor'] ?? '', '0') || '0';
+    return [sign, majorStr, minorStr];
+};
+
 export const trimStart = (str: string, char: string): string => {
     const { length } = str;
     let i = 0;
@@ -16,6 +35,44 @@ export const trimEnd = (str: string, char: string): string => {
     return i < l ? str.slice(0, i + 1) : str;
 };
 
+export const toSafeInteger = (
+    value: bigint,
+    operation: string,
+    operands: readonly unknown[],
+    message?: string,
+): number => {
+    if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+        throw new OverflowError(operation, operands, message);
+    }
+    return Number(value);
+};
+
+const isDigit = (char: string | undefined) => char !== undefined && char >= '0' && char <= '9';
+
+// Finds the first character of `str` that does not fit the decimal grammar
+// (`lax` allows empty digit strings, `exponent` allows a trailing `e±digits`)
+export const invalidDecimalPosition = (str: string, lax: boolean, exponent: boolean = false): number => {
+    let i = 0;
+    if (str[i] === '-' || str[i] === '+') ++i;
+    const majorStart = i;
+    while (isDigit(str[i])) ++i;
+    if (!lax && i === majorStart) return i;
+    if (str[i] === '.') {
+        ++i;
+        const minorStart = i;
+        while (isDigit(str[i])) ++i;
+        if (!lax && i === minorStart) return i;
+    }
+    if (exponent && (str[i] === 'e' || str[i] === 'E')) {
+        ++i;
+        if (str[i] === '-' || str[i] === '+') ++i;
+        const exponentStart = i;
+        while (isDigit(str[i])) ++i;
+        if (i === exponentStart) return i;
+    }
+    return i;
+};
+
 /* istanbul ignore if -- @preserve */
 if (import.meta.vitest) {
     const { it, expect } = import.meta.vitest;
@@ -35,4 +92,24 @@ if (import.meta.vitest) {
         expect(trimEnd('1230', '0')).toBe('123');
         expect(trimEnd('12300', '0')).toBe('123');
     });
+
+    it('converts bigints to safe integers', () => {
+        expect(toSafeInteger(0n, 'test', [])).toBe(0);
+        expect(toSafeInteger(BigInt(Number.MAX_SAFE_INTEGER), 'test', [])).toBe(Number.MAX_SAFE_INTEGER);
+        expect(toSafeInteger(BigInt(Number.MIN_SAFE_INTEGER), 'test', [])).toBe(Number.MIN_SAFE_INTEGER);
+        expect(() => toSafeInteger(BigInt(Number.MAX_SAFE_INTEGER) + 1n, 'test', [])).toThrow(OverflowError);
+        expect(() => toSafeInteger(BigInt(Number.MIN_SAFE_INTEGER) - 1n, 'test', [])).toThrow('test overflow');
+    });
+
+    it('finds invalid decimal positions', () => {
+        expect(invalidDecimalPosition('', false)).toBe(0);
+        expect(invalidDecimalPosition('1.', false)).toBe(2);
+        expect(invalidDecimalPosition('.5', false)).toBe(0);
+        expect(invalidDecimalPosition('-12x', false)).toBe(3);
+        expect(invalidDecimalPosition('1.2.3', false)).toBe(3);
+        expect(invalidDecimalPosition('..', true)).toBe(1);
+        expect(invalidDecimalPosition('1e5', false)).toBe(1);
+        expect(invalidDecimalPosition('1e', false, true)).toBe(2);
+        expect(invalidDecimalPosition('1e+5x', false, true)).toBe(4);
+    });
 }